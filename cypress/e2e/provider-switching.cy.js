@@ -89,14 +89,14 @@ describe('Chat Stream Provider Switching', () => {
 		cy.setPluginSettings({
 			provider: 'OpenAI',
 			apiModel: 'gpt-4',
-			lastOpenAIModel: 'gpt-4'
+			lastModels: { OpenAI: 'gpt-4' }
 		})
 
 		// Switch to Gemini
 		cy.setPluginSettings({
 			provider: 'Gemini',
 			apiModel: 'gemini-1.5-pro',
-			lastGeminiModel: 'gemini-1.5-pro'
+			lastModels: { OpenAI: 'gpt-4', Gemini: 'gemini-1.5-pro' }
 		})
 
 		// Switch back to OpenAI
@@ -107,7 +107,7 @@ describe('Chat Stream Provider Switching', () => {
 		cy.window().then((win) => {
 			const plugin = win.app.plugins.plugins['chat-stream']
 			// Should restore previous OpenAI model
-			expect(plugin.settings.lastOpenAIModel).to.equal('gpt-4')
+			expect(plugin.settings.lastModels.OpenAI).to.equal('gpt-4')
 		})
 	})
 
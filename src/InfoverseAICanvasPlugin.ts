@@ -1,4 +1,4 @@
-import { Plugin, App, PluginManifest, ItemView, addIcon } from 'obsidian'
+import { Plugin, App, PluginManifest, ItemView, Notice, addIcon, debounce } from 'obsidian'
 import {
 	InfoverseAICanvasSettings,
 	DEFAULT_SETTINGS
@@ -10,6 +10,10 @@ import { CanvasSelectionManager } from './ui/CanvasSelectionManager'
 import { TooltipAction } from './ui/CanvasTooltip'
 import { CanvasView } from './obsidian/canvas-patches'
 import { CanvasNode } from './obsidian/canvas-internal'
+import { getModelCatalog, PROVIDERS } from './models/providers'
+import { migrateRetiredModels } from './models/retiredModels'
+import { rollUpUsage, UsageLedger, UsageRecord } from './usage/usageLedger'
+import { USAGE_VIEW_TYPE, UsageView } from './ui/UsageView'
 import {
 	BUBBLE_CLUSTER_ICON_NAME,
 	BUBBLE_CLUSTER_SVG
@@ -21,9 +25,13 @@ import {
  */
 export class InfoverseAICanvasPlugin extends Plugin {
 	settings: InfoverseAICanvasSettings
+	usageLedger: UsageLedger
 	logDebug: Logger
 	private selectionManagers: Map<CanvasView, CanvasSelectionManager> = new Map()
 
+	// Requests finishing together are saved in one write
+	private saveUsageLater = debounce(() => this.saveUsage(), 2000, true)
+
 	constructor(app: App, pluginManifest: PluginManifest, pluginPath: string) {
 		super(app, pluginManifest)
 	}
@@ -40,7 +48,16 @@ export class InfoverseAICanvasPlugin extends Plugin {
 
 		this.logDebug('Debug logging enabled')
 
-		const generator = noteGenerator(this.app, this.settings, this.logDebug)
+		const generator = noteGenerator(
+			this.app,
+			this.settings,
+			this.logDebug,
+			this.usageLedger,
+			() => this.saveSettings()
+		)
+
+		this.registerView(USAGE_VIEW_TYPE, (leaf) => new UsageView(leaf, this.usageLedger))
+		this.usageLedger.onChange(() => this.saveUsageLater())
 
 		this.addSettingTab(new SettingsTab(this.app, this))
 
@@ -52,11 +69,46 @@ export class InfoverseAICanvasPlugin extends Plugin {
 				tooltip: 'Generate single AI response',
 				action: (node: CanvasNode) => generator.generateNote()
 			},
+			{
+				id: 'variations',
+				icon: 'git-fork',
+				tooltip: 'Generate variations',
+				action: (node: CanvasNode) => generator.generateVariations()
+			},
 			{
 				id: 'bubble-cluster-mindmap',
 				icon: BUBBLE_CLUSTER_ICON_NAME,
 				tooltip: 'Generate a mindmap',
 				action: (node: CanvasNode) => generator.generateMindmap()
+			},
+			{
+				id: 'regenerate',
+				icon: 'refresh-cw',
+				tooltip: 'Regenerate',
+				action: (node: CanvasNode) => generator.regenerateNote(node),
+				isVisible: (node: CanvasNode) =>
+					node.getData().chat_role === 'assistant' && !generator.isGenerating(node)
+			},
+			{
+				id: 'previous-version',
+				icon: 'chevron-left',
+				tooltip: 'Previous version',
+				action: (node: CanvasNode) => generator.showVersion(node, -1),
+				isVisible: (node: CanvasNode) => generator.hasVersion(node, -1)
+			},
+			{
+				id: 'next-version',
+				icon: 'chevron-right',
+				tooltip: 'Next version',
+				action: (node: CanvasNode) => generator.showVersion(node, 1),
+				isVisible: (node: CanvasNode) => generator.hasVersion(node, 1)
+			},
+			{
+				id: 'stop-generation',
+				icon: 'square',
+				tooltip: 'Stop AI generation',
+				action: (node: CanvasNode) => generator.stopGeneration(node),
+				isVisible: (node: CanvasNode) => generator.isGenerating(node)
 			}
 		]
 
@@ -84,6 +136,38 @@ export class InfoverseAICanvasPlugin extends Plugin {
 			]
 		})
 
+		this.addCommand({
+			id: 'preview-context',
+			name: 'Preview AI context',
+			callback: () => {
+				generator.previewContext()
+			}
+		})
+
+		this.addCommand({
+			id: 'generate-variations',
+			name: 'Generate AI variations',
+			callback: () => {
+				generator.generateVariations()
+			}
+		})
+
+		this.addCommand({
+			id: 'compare-models',
+			name: 'Compare AI models',
+			callback: () => {
+				generator.compareModels()
+			}
+		})
+
+		this.addCommand({
+			id: 'run-batch-prompt',
+			name: 'Run AI prompt on each selected note',
+			callback: () => {
+				generator.runBatch()
+			}
+		})
+
 		this.addCommand({
 			id: 'next-note',
 			name: 'Create next note',
@@ -112,6 +196,45 @@ export class InfoverseAICanvasPlugin extends Plugin {
 			]
 		})
 
+		this.addCommand({
+			id: 'stop-generation',
+			name: 'Stop AI generation',
+			callback: () => {
+				const canvas = this.app.workspace.getActiveViewOfType(ItemView) as CanvasView | null
+				const selection = canvas?.canvas?.selection
+				const selected = selection?.size === 1 ? Array.from(selection)[0] as CanvasNode : undefined
+				// Stop the selected response if it is streaming, otherwise everything
+				const target = selected && generator.isGenerating(selected) ? selected : undefined
+				if (!generator.stopGeneration(target)) {
+					new Notice('No AI generation is running')
+				}
+			},
+			hotkeys: [
+				{
+					modifiers: ['Alt', 'Shift'],
+					key: 'X'
+				}
+			]
+		})
+
+		this.addCommand({
+			id: 'regenerate-note',
+			name: 'Regenerate AI note',
+			callback: () => {
+				const canvas = this.app.workspace.getActiveViewOfType(ItemView) as CanvasView | null
+				const selection = canvas?.canvas?.selection
+				if (selection?.size === 1) {
+					generator.regenerateNote(Array.from(selection)[0] as CanvasNode)
+				}
+			}
+		})
+
+		this.addCommand({
+			id: 'open-usage-report',
+			name: 'Open AI usage report',
+			callback: () => this.openUsageView()
+		})
+
 	}
 
 	private setupCanvasTooltips(actions: TooltipAction[]) {
@@ -147,13 +270,77 @@ export class InfoverseAICanvasPlugin extends Plugin {
 			manager.destroy()
 		}
 		this.selectionManagers.clear()
+
+		// Write usage still waiting for the debounced save
+		this.saveUsageLater.cancel()
+		await this.saveUsage()
+	}
+
+	/**
+	 * Show the usage report, reusing an open one
+	 */
+	async openUsageView() {
+		const existing = this.app.workspace.getLeavesOfType(USAGE_VIEW_TYPE)[0]
+		const leaf = existing || this.app.workspace.getLeaf('tab')
+		if (!existing) {
+			await leaf.setViewState({ type: USAGE_VIEW_TYPE, active: true })
+		}
+		this.app.workspace.revealLeaf(leaf)
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData())
+		// Ledgers saved before it had its own file are in the plugin data
+		const { usage, ...data } = (await this.loadData()) || {}
+		const savedUsage = await this.loadUsage()
+		this.usageLedger = new UsageLedger(rollUpUsage(savedUsage || usage || [], Date.now()))
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data)
+		this.settings.lastModels = { ...DEFAULT_SETTINGS.lastModels, ...data.lastModels }
+		this.settings.providerRateLimits = { ...data.providerRateLimits }
+		this.settings.budgetOverrides = { ...data.budgetOverrides }
+
+		// Migrate per-provider model memory saved before providers were pluggable
+		if (!data.lastModels) {
+			if (data.lastOpenAIModel) {
+				this.settings.lastModels[PROVIDERS.OPENAI] = data.lastOpenAIModel
+			}
+			if (data.lastGeminiModel) {
+				this.settings.lastModels[PROVIDERS.GEMINI] = data.lastGeminiModel
+			}
+		}
+		// Retired models added back through the model catalog are kept
+		const catalog = getModelCatalog(this.settings)
+		migrateRetiredModels(this.settings, name => catalog.some(model => model.name === name))
+
+		if (!savedUsage && usage) {
+			await this.saveUsage()
+			await this.saveSettings()
+		}
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings)
 	}
+
+	/**
+	 * The usage ledger lives in its own file next to the plugin data, so
+	 * recording a request does not rewrite the settings
+	 */
+	private get usagePath() {
+		return `${this.manifest.dir}/usage.json`
+	}
+
+	private async loadUsage(): Promise<UsageRecord[] | undefined> {
+		const { adapter } = this.app.vault
+		if (!await adapter.exists(this.usagePath)) return undefined
+		try {
+			return JSON.parse(await adapter.read(this.usagePath))
+		} catch (err) {
+			console.error('Failed to read the usage ledger', err)
+			return undefined
+		}
+	}
+
+	async saveUsage() {
+		await this.app.vault.adapter.write(this.usagePath, JSON.stringify(this.usageLedger.records))
+	}
 }
@@ -0,0 +1,172 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { ClaudeRequest, convertMessagesToClaude, countClaudeTokens, getClaudeStreamingCompletion } from './claudeAPI'
+import { TokenUsage } from '../models/llmProvider'
+
+type Handler = (req: IncomingMessage, body: string, res: ServerResponse) => void
+
+const sse = (event: object) => `event: ${(event as { type: string }).type}\ndata: ${JSON.stringify(event)}\n\n`
+
+describe('convertMessagesToClaude', () => {
+    it('should move system prompts to the top-level system field', () => {
+        const { system, messages } = convertMessagesToClaude([
+            { role: 'system', content: 'SYSTEM PROMPT be brief' },
+            { role: 'user', content: 'Hello' },
+            { role: 'assistant', content: 'Hi' },
+            { role: 'user', content: 'Bye' }
+        ])
+
+        expect(system).toBe('SYSTEM PROMPT be brief')
+        expect(messages.map(m => m.role)).toEqual(['user', 'assistant', 'user'])
+    })
+
+    it('should merge consecutive messages of the same role', () => {
+        const { system, messages } = convertMessagesToClaude([
+            { role: 'user', content: 'First note' },
+            { role: 'user', content: 'Second note' }
+        ])
+
+        expect(system).toBeUndefined()
+        expect(messages).toEqual([{
+            role: 'user',
+            content: [
+                { type: 'text', text: 'First note' },
+                { type: 'text', text: 'Second note' }
+            ]
+        }])
+    })
+})
+
+describe('getClaudeStreamingCompletion', () => {
+    let server: Server
+    let url: string
+    let handler: Handler
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            let body = ''
+            req.on('data', chunk => { body += chunk })
+            req.on('end', () => handler(req, body, res))
+        })
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/messages`
+    })
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve))
+    })
+
+    const stream = (messages = [{ role: 'system' as const, content: 'Be brief' }, { role: 'user' as const, content: 'Hi' }]) =>
+        new Promise<{ tokens: string[], fullText?: string, error?: Error, usage?: TokenUsage }>(resolve => {
+            const tokens: string[] = []
+            let usage: TokenUsage | undefined
+            getClaudeStreamingCompletion(
+                'test-key',
+                url,
+                'claude-sonnet-4-20250514',
+                messages,
+                token => tokens.push(token),
+                fullText => resolve({ tokens, fullText, usage }),
+                error => resolve({ tokens, error }),
+                undefined,
+                5000,
+                undefined,
+                reported => { usage = reported }
+            )
+        })
+
+    it('should feed text deltas to onToken and complete on message_stop', async () => {
+        let requestBody: ClaudeRequest | undefined
+        let apiKey: string | string[] | undefined
+        handler = (req, body, res) => {
+            requestBody = JSON.parse(body)
+            apiKey = req.headers['x-api-key']
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+            const payload = [
+                sse({ type: 'message_start', message: {} }),
+                sse({ type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }),
+                sse({ type: 'ping' }),
+                sse({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hello' } }),
+                sse({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' world' } }),
+                sse({ type: 'content_block_stop', index: 0 }),
+                sse({ type: 'message_delta', delta: { stop_reason: 'end_turn' } }),
+                sse({ type: 'message_stop' })
+            ].join('')
+            // Split mid-event to exercise buffering of partial lines
+            res.write(payload.slice(0, 250))
+            setTimeout(() => res.end(payload.slice(250)), 10)
+        }
+
+        const result = await stream()
+
+        expect(result.error).toBeUndefined()
+        expect(result.tokens).toEqual(['Hello', ' world'])
+        expect(result.fullText).toBe('Hello world')
+        expect(apiKey).toBe('test-key')
+        expect(requestBody?.system).toBe('Be brief')
+        expect(requestBody?.stream).toBe(true)
+        expect(requestBody?.messages).toEqual([{ role: 'user', content: 'Hi' }])
+    })
+
+    it('should report token usage from message_start and message_delta', async () => {
+        handler = (req, body, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+            res.end([
+                sse({ type: 'message_start', message: { usage: { input_tokens: 25, output_tokens: 1 } } }),
+                sse({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } }),
+                sse({ type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 12 } }),
+                sse({ type: 'message_stop' })
+            ].join(''))
+        }
+
+        const result = await stream()
+
+        expect(result.usage).toEqual({ promptTokens: 25, completionTokens: 12 })
+    })
+
+    it('should report error events through onError', async () => {
+        handler = (req, body, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+            res.end(sse({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }))
+        }
+
+        const result = await stream()
+
+        expect(result.error?.message).toBe('Anthropic API error: Overloaded')
+    })
+
+    it('should report HTTP errors through onError', async () => {
+        handler = (req, body, res) => {
+            res.writeHead(401, { 'Content-Type': 'application/json' })
+            res.end(JSON.stringify({ type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } }))
+        }
+
+        const result = await stream()
+
+        expect(result.error?.message).toMatch(/^HTTP 401/)
+    })
+
+    it('should count tokens with the count_tokens endpoint', async () => {
+        let path: string | undefined
+        let requestBody: Partial<ClaudeRequest> | undefined
+        handler = (req, body, res) => {
+            path = req.url
+            requestBody = JSON.parse(body)
+            res.writeHead(200, { 'Content-Type': 'application/json' })
+            res.end(JSON.stringify({ input_tokens: 42 }))
+        }
+
+        const count = await countClaudeTokens('test-key', url, 'claude-sonnet-4-20250514', [
+            { role: 'system', content: 'Be brief' },
+            { role: 'user', content: 'Hi' }
+        ])
+
+        expect(count).toBe(42)
+        expect(path).toBe('/v1/messages/count_tokens')
+        expect(requestBody).toEqual({
+            model: 'claude-sonnet-4-20250514',
+            system: 'Be brief',
+            messages: [{ role: 'user', content: 'Hi' }]
+        })
+    })
+})
@@ -0,0 +1,327 @@
+import { openai } from '../openai/chatGPT-types'
+import { forwardAbort, parseDataUrl } from '../utils'
+import { ProviderModel, TokenUsage } from '../models/llmProvider'
+
+export const CLAUDE_MESSAGES_URL = `https://api.anthropic.com/v1/messages`
+
+export const ANTHROPIC_VERSION = '2023-06-01'
+
+export type ClaudeModelSettings = ProviderModel
+
+export const CLAUDE_MODELS = {
+	CLAUDE_OPUS_4_1: {
+		name: 'claude-opus-4-1-20250805',
+		tokenLimit: 200000,
+		maxOutputTokens: 32000,
+		tokenizer: 'claude',
+		vision: true,
+		json: false,
+		tools: true
+	},
+	CLAUDE_SONNET_4: {
+		name: 'claude-sonnet-4-20250514',
+		tokenLimit: 200000,
+		maxOutputTokens: 64000,
+		tokenizer: 'claude',
+		vision: true,
+		json: false,
+		tools: true
+	},
+	CLAUDE_3_7_SONNET: {
+		name: 'claude-3-7-sonnet-20250219',
+		tokenLimit: 200000,
+		maxOutputTokens: 64000,
+		tokenizer: 'claude',
+		vision: true,
+		json: false,
+		tools: true
+	},
+	CLAUDE_3_5_HAIKU: {
+		name: 'claude-3-5-haiku-20241022',
+		tokenLimit: 200000,
+		maxOutputTokens: 8192,
+		tokenizer: 'claude',
+		vision: true,
+		json: false,
+		tools: true
+	}
+}
+
+export type ClaudeModel = keyof typeof CLAUDE_MODELS
+
+export function claudeModelByName(name: string) {
+	return Object.values(CLAUDE_MODELS).find((model) => model.name === name)
+}
+
+// Anthropic Messages API types
+export type ClaudeContentBlock =
+	| { type: 'text'; text: string }
+	| { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+
+export interface ClaudeMessage {
+	role: 'user' | 'assistant'
+	content: string | ClaudeContentBlock[]
+}
+
+export interface ClaudeRequest {
+	model: string
+	messages: ClaudeMessage[]
+	system?: string
+	max_tokens: number
+	temperature?: number
+	stream?: boolean
+}
+
+/**
+ * Server-sent event payloads we act on while streaming
+ */
+export type ClaudeStreamEvent =
+	| { type: 'message_start'; message: { usage?: { input_tokens: number; output_tokens: number } } }
+	| { type: 'content_block_start'; index: number }
+	| { type: 'content_block_delta'; index: number; delta: { type: 'text_delta'; text: string } | { type: string } }
+	| { type: 'content_block_stop'; index: number }
+	| { type: 'message_delta'; delta: { stop_reason?: string | null }; usage?: { output_tokens: number } }
+	| { type: 'message_stop' }
+	| { type: 'ping' }
+	| { type: 'error'; error: { type: string; message: string } }
+
+export const defaultClaudeSettings = {
+	max_tokens: 4096,
+	temperature: 1
+}
+
+function convertContent(content: openai.ChatCompletionRequestMessage['content']): ClaudeMessage['content'] {
+	if (typeof content === 'string') return content
+
+	const blocks: ClaudeContentBlock[] = []
+	for (const part of content) {
+		if (part.type === 'image_url') {
+			const image = parseDataUrl(part.image_url.url)
+			if (image) {
+				blocks.push({
+					type: 'image',
+					source: { type: 'base64', media_type: image.mimeType, data: image.data }
+				})
+			}
+		} else if (part.type === 'text') {
+			blocks.push({ type: 'text', text: part.text })
+		}
+	}
+	return blocks
+}
+
+/**
+ * Convert OpenAI-style messages to an Anthropic request. System messages move
+ * to the top-level `system` field and consecutive messages of the same role
+ * are merged, since the Messages API expects alternating turns.
+ */
+export function convertMessagesToClaude(messages: openai.ChatCompletionRequestMessage[]) {
+	const system = messages
+		.filter(msg => msg.role === 'system')
+		.map(msg => typeof msg.content === 'string' ? msg.content : '')
+		.filter(Boolean)
+		.join('\n\n')
+
+	const claudeMessages: ClaudeMessage[] = []
+	for (const msg of messages) {
+		if (msg.role === 'system') continue
+
+		const role = msg.role === 'assistant' ? 'assistant' : 'user'
+		const content = convertContent(msg.content)
+		const previous = claudeMessages[claudeMessages.length - 1]
+
+		if (previous && previous.role === role) {
+			const toBlocks = (c: ClaudeMessage['content']): ClaudeContentBlock[] =>
+				typeof c === 'string' ? [{ type: 'text', text: c }] : c
+			previous.content = [...toBlocks(previous.content), ...toBlocks(content)]
+		} else {
+			claudeMessages.push({ role, content })
+		}
+	}
+
+	return { system: system || undefined, messages: claudeMessages }
+}
+
+/**
+ * Count the input tokens of a request with Anthropic's token counting
+ * endpoint, found next to the Messages endpoint
+ */
+export async function countClaudeTokens(
+	apiKey: string,
+	apiUrl: string,
+	model: string,
+	messages: openai.ChatCompletionRequestMessage[]
+): Promise<number> {
+	const { system, messages: claudeMessages } = convertMessagesToClaude(messages)
+
+	const response = await fetch(`${apiUrl.replace(/\/+$/, '')}/count_tokens`, {
+		method: 'POST',
+		headers: {
+			'x-api-key': apiKey,
+			'anthropic-version': ANTHROPIC_VERSION,
+			'anthropic-dangerous-direct-browser-access': 'true',
+			'Content-Type': 'application/json'
+		},
+		body: JSON.stringify({ model, messages: claudeMessages, system })
+	})
+
+	if (!response.ok) {
+		const errorText = await response.text().catch(() => 'Unknown error')
+		throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`)
+	}
+
+	const { input_tokens } = await response.json() as { input_tokens: number }
+	return input_tokens
+}
+
+/**
+ * Streaming completion for Anthropic's Messages API using server-sent events
+ */
+export async function getClaudeStreamingCompletion(
+	apiKey: string,
+	apiUrl: string,
+	model: string,
+	messages: openai.ChatCompletionRequestMessage[],
+	onToken: (token: string) => void,
+	onComplete: (fullText: string) => void,
+	onError: (error: Error) => void,
+	settings?: Partial<Pick<ClaudeRequest, 'max_tokens' | 'temperature'>>,
+	timeoutMs = 30000, // 30 second default timeout
+	signal?: AbortSignal,
+	onUsage?: (usage: TokenUsage) => void
+): Promise<void> {
+	const headers = {
+		'x-api-key': apiKey,
+		'anthropic-version': ANTHROPIC_VERSION,
+		// Required for requests made from a browser context such as Obsidian
+		'anthropic-dangerous-direct-browser-access': 'true',
+		'Content-Type': 'application/json',
+		'Accept': 'text/event-stream'
+	}
+
+	const { system, messages: claudeMessages } = convertMessagesToClaude(messages)
+
+	const body: ClaudeRequest = {
+		model,
+		messages: claudeMessages,
+		system,
+		max_tokens: settings?.max_tokens || defaultClaudeSettings.max_tokens,
+		// Anthropic accepts temperatures between 0 and 1
+		temperature: Math.min(1, settings?.temperature ?? defaultClaudeSettings.temperature),
+		stream: true
+	}
+
+	console.debug('Calling Anthropic streaming', { url: apiUrl, model, messagesCount: claudeMessages.length, timeout: timeoutMs })
+
+	let fullText = ''
+	let buffer = ''
+	// Input tokens arrive with message_start, the output count with message_delta
+	let usage: TokenUsage | undefined
+
+	try {
+		const controller = new AbortController()
+		const timeoutId = setTimeout(() => {
+			controller.abort()
+		}, timeoutMs)
+		forwardAbort(signal, controller)
+
+		const response = await fetch(apiUrl, {
+			method: 'POST',
+			headers,
+			body: JSON.stringify(body),
+			signal: controller.signal
+		})
+
+		// Clear timeout on successful connection
+		clearTimeout(timeoutId)
+
+		if (!response.ok) {
+			const errorText = await response.text().catch(() => 'Unknown error')
+			throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`)
+		}
+
+		const reader = response.body?.getReader()
+		if (!reader) {
+			throw new Error('No response body reader available')
+		}
+
+		const decoder = new TextDecoder()
+
+		let done = false
+		while (!done) {
+			const result = await reader.read()
+			done = result.done
+			if (done) break
+
+			buffer += decoder.decode(result.value, { stream: true })
+
+			// Process complete lines, keeping any incomplete line in the buffer
+			const lines = buffer.split('\n')
+			buffer = lines.pop() || ''
+
+			for (const line of lines) {
+				const trimmedLine = line.trim()
+
+				// `event:` lines repeat the `type` found in the data payload
+				if (!trimmedLine.startsWith('data:')) continue
+
+				let event: ClaudeStreamEvent
+				try {
+					event = JSON.parse(trimmedLine.slice(5).trim())
+				} catch (parseError) {
+					console.warn('Failed to parse Anthropic stream event:', parseError, trimmedLine)
+					continue
+				}
+
+				switch (event.type) {
+					case 'message_start':
+						if (event.message?.usage) {
+							usage = {
+								promptTokens: event.message.usage.input_tokens,
+								completionTokens: event.message.usage.output_tokens
+							}
+						}
+						break
+					case 'content_block_delta':
+						if (event.delta.type === 'text_delta' && 'text' in event.delta) {
+							fullText += event.delta.text
+							onToken(event.delta.text)
+						}
+						break
+					case 'message_delta':
+						if (event.delta.stop_reason) {
+							console.debug('Anthropic stream finished with reason:', event.delta.stop_reason)
+						}
+						if (usage && event.usage) {
+							usage.completionTokens = event.usage.output_tokens
+						}
+						break
+					case 'message_stop':
+						await reader.cancel()
+						if (usage) onUsage?.(usage)
+						onComplete(fullText)
+						return
+					case 'error':
+						throw new Error(`Anthropic API error: ${event.error.message}`)
+				}
+			}
+		}
+
+		if (usage) onUsage?.(usage)
+		onComplete(fullText)
+	} catch (error) {
+		// Stopped by the caller, which keeps the partial text itself
+		if (signal?.aborted) {
+			console.debug('Anthropic streaming aborted')
+			return
+		}
+
+		console.error('Anthropic streaming error:', error)
+
+		if (error.name === 'AbortError') {
+			onError(new Error(`Request timeout after ${timeoutMs}ms`))
+		} else {
+			onError(error instanceof Error ? error : new Error(String(error)))
+		}
+	}
+}
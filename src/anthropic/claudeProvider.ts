@@ -0,0 +1,47 @@
+import { LlmProvider } from '../models/llmProvider'
+import { getTokenizer } from '../models/tokenizers'
+import { CLAUDE_MODELS, countClaudeTokens, getClaudeStreamingCompletion } from './claudeAPI'
+
+export const claudeProvider: LlmProvider = {
+	id: 'Anthropic',
+
+	capabilities: {
+		streaming: true,
+		vision: true,
+		requiresApiKey: true
+	},
+
+	getModels: () => Object.values(CLAUDE_MODELS),
+
+	// No local Claude tokenizer; estimate, calibrated by reported counts
+	getTokenizer: () => getTokenizer('claude'),
+
+	validateApiKey: (settings) =>
+		settings.anthropicApiKey ? undefined : 'Please set your Anthropic API key in the plugin settings',
+
+	streamCompletion: (request, callbacks) =>
+		getClaudeStreamingCompletion(
+			request.settings.anthropicApiKey,
+			request.settings.anthropicApiUrl,
+			request.model,
+			request.messages,
+			callbacks.onToken,
+			callbacks.onComplete,
+			callbacks.onError,
+			{
+				max_tokens: request.maxTokens || undefined,
+				temperature: request.temperature
+			},
+			request.timeoutMs,
+			request.signal,
+			callbacks.onUsage
+		),
+
+	countTokens: (request) =>
+		countClaudeTokens(
+			request.settings.anthropicApiKey,
+			request.settings.anthropicApiUrl,
+			request.model,
+			request.messages
+		)
+}
@@ -1,34 +1,58 @@
 import { request, RequestUrlParam } from 'obsidian'
 import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold, FinishReason } from '@google/generative-ai'
+import { openai } from '../openai/chatGPT-types'
+import { parseDataUrl } from '../utils'
+import { ProviderModel, TokenUsage } from '../models/llmProvider'
 
 export const GEMINI_COMPLETIONS_URL = `https://generativelanguage.googleapis.com/v1beta/models`
 
-export type GeminiModelSettings = {
-	name: string,
-	tokenLimit: number,
-	encodingFrom?: string
-}
+export type GeminiModelSettings = ProviderModel
 
 export const GEMINI_MODELS = {
-	GEMINI_1_5_PRO: {
-		name: 'gemini-1.5-pro',
-		tokenLimit: 128000,
-		encodingFrom: 'gemini-1.5-pro'
-	},
-	GEMINI_1_5_FLASH: {
-		name: 'gemini-1.5-flash',
-		tokenLimit: 128000,
-		encodingFrom: 'gemini-1.5-flash'
+	GEMINI_2_5_PRO: {
+		name: 'gemini-2.5-pro',
+		tokenLimit: 1048576, // 1M input tokens
+		maxOutputTokens: 65536,
+		tokenizer: 'gemini',
+		vision: true,
+		json: true,
+		tools: true
 	},
 	GEMINI_2_5_FLASH: {
-		name: 'gemini-2.5-flash-preview-05-20',
-		tokenLimit: 1048576, // 1M input tokens
-		encodingFrom: 'gemini-2.5-flash'
+		name: 'gemini-2.5-flash',
+		tokenLimit: 1048576,
+		maxOutputTokens: 65536,
+		tokenizer: 'gemini',
+		vision: true,
+		json: true,
+		tools: true
 	},
-	GEMINI_2_5_PRO: {
-		name: 'gemini-2.5-pro-preview-05-06',
-		tokenLimit: 1048576, // 1M input tokens
-		encodingFrom: 'gemini-2.5-pro'
+	GEMINI_2_5_FLASH_LITE: {
+		name: 'gemini-2.5-flash-lite',
+		tokenLimit: 1048576,
+		maxOutputTokens: 65536,
+		tokenizer: 'gemini',
+		vision: true,
+		json: true,
+		tools: true
+	},
+	GEMINI_2_0_FLASH: {
+		name: 'gemini-2.0-flash',
+		tokenLimit: 1048576,
+		maxOutputTokens: 8192,
+		tokenizer: 'gemini',
+		vision: true,
+		json: true,
+		tools: true
+	},
+	GEMINI_2_0_FLASH_LITE: {
+		name: 'gemini-2.0-flash-lite',
+		tokenLimit: 1048576,
+		maxOutputTokens: 8192,
+		tokenizer: 'gemini',
+		vision: true,
+		json: true,
+		tools: false
 	}
 }
 
@@ -39,13 +63,21 @@ export function geminiModelByName(name: string) {
 }
 
 // Gemini API types
+export type GeminiPart =
+	| { text: string }
+	| { inlineData: { mimeType: string; data: string } }
+
 export interface GeminiMessage {
 	role: 'user' | 'model'
-	parts: Array<{ text: string }>
+	parts: GeminiPart[]
 }
 
 export interface GeminiRequest {
 	contents: GeminiMessage[]
+	systemInstruction?: {
+		role: string
+		parts: Array<{ text: string }>
+	}
 	generationConfig?: {
 		temperature?: number
 		topP?: number
@@ -82,42 +114,72 @@ export const defaultGeminiSettings = {
 	maxOutputTokens: 8192
 }
 
-// Convert OpenAI-style messages to Gemini format
-function convertMessagesToGemini(messages: Array<{ role: string; content: string }>): GeminiMessage[] {
-	return messages
-		.filter(msg => msg.role !== 'system') // Gemini handles system prompts differently
-		.map(msg => ({
-			role: msg.role === 'assistant' ? 'model' : 'user',
-			parts: [{ text: msg.content }]
-		}))
+// Convert message content to Gemini parts. Base64 image data URLs become
+// inlineData parts so images are sent as images rather than as text.
+function convertContentToGemini(content: openai.ChatCompletionRequestMessage['content']): GeminiPart[] {
+	if (typeof content === 'string') return [{ text: content }]
+
+	const parts: GeminiPart[] = []
+	for (const part of content) {
+		if (part.type === 'image_url') {
+			const image = parseDataUrl(part.image_url.url)
+			if (image) {
+				parts.push({ inlineData: { mimeType: image.mimeType, data: image.data } })
+			} else {
+				console.warn('Gemini only accepts inline image data, skipping image', part.image_url.url)
+			}
+		} else if (part.type === 'text') {
+			parts.push({ text: part.text })
+		}
+	}
+	return parts
+}
+
+// Convert OpenAI-style messages to Gemini format. Consecutive messages with the
+// same role are merged, since Gemini expects user and model turns to alternate.
+function convertMessagesToGemini(messages: openai.ChatCompletionRequestMessage[]): GeminiMessage[] {
+	const contents: GeminiMessage[] = []
+	for (const msg of messages) {
+		if (msg.role === 'system') continue // Gemini takes system prompts as systemInstruction
+
+		const role = msg.role === 'assistant' ? 'model' : 'user'
+		const parts = convertContentToGemini(msg.content)
+		const previous = contents[contents.length - 1]
+		if (previous && previous.role === role) {
+			previous.parts.push(...parts)
+		} else if (parts.length) {
+			contents.push({ role, parts })
+		}
+	}
+	return contents
+}
+
+// Collect system messages into a Gemini systemInstruction
+function getSystemInstruction(messages: openai.ChatCompletionRequestMessage[]): GeminiRequest['systemInstruction'] {
+	const parts = messages
+		.filter(msg => msg.role === 'system')
+		.map(msg => typeof msg.content === 'string' ? msg.content : '')
+		.filter(Boolean)
+		.map(text => ({ text }))
+	return parts.length ? { role: 'system', parts } : undefined
 }
 
 export async function getGeminiCompletion(
 	apiKey: string,
 	model: string,
-	messages: Array<{ role: string; content: string }>,
+	messages: openai.ChatCompletionRequestMessage[],
 	settings?: Partial<GeminiRequest['generationConfig']>
 ): Promise<string | undefined> {
-	const modelName = model || GEMINI_MODELS.GEMINI_1_5_FLASH.name
+	const modelName = model || GEMINI_MODELS.GEMINI_2_5_FLASH.name
 	const url = `${GEMINI_COMPLETIONS_URL}/${modelName}:generateContent?key=${apiKey}`
 
 	const headers = {
 		'Content-Type': 'application/json'
 	}
 
-	// Handle system prompt by prepending it to the first user message
-	const systemPrompt = messages.find(msg => msg.role === 'system')?.content
-	const conversationMessages = messages.filter(msg => msg.role !== 'system')
-
-	if (systemPrompt && conversationMessages.length > 0) {
-		const firstUserMessage = conversationMessages.find(msg => msg.role === 'user')
-		if (firstUserMessage) {
-			firstUserMessage.content = `${systemPrompt}\n\n${firstUserMessage.content}`
-		}
-	}
-
 	const body: GeminiRequest = {
-		contents: convertMessagesToGemini(conversationMessages),
+		contents: convertMessagesToGemini(messages),
+		systemInstruction: getSystemInstruction(messages),
 		generationConfig: {
 			...defaultGeminiSettings,
 			...settings
@@ -148,17 +210,36 @@ export async function getGeminiCompletion(
 	}
 }
 
+/**
+ * Count the prompt tokens of a conversation, including the system
+ * instruction, with Gemini's countTokens API
+ */
+export async function countGeminiTokens(
+	apiKey: string,
+	model: string,
+	messages: openai.ChatCompletionRequestMessage[]
+): Promise<number> {
+	const geminiModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+		model: model || GEMINI_MODELS.GEMINI_2_5_FLASH.name,
+		systemInstruction: getSystemInstruction(messages)
+	})
+	const { totalTokens } = await geminiModel.countTokens({ contents: convertMessagesToGemini(messages) })
+	return totalTokens
+}
+
 /**
  * Real streaming completion for Gemini using the official SDK
  */
 export async function getGeminiStreamingCompletion(
 	apiKey: string,
 	model: string,
-	messages: Array<{ role: string; content: string }>,
+	messages: openai.ChatCompletionRequestMessage[],
 	onToken: (token: string) => void,
 	onComplete: (fullText: string) => void,
 	onError: (error: Error) => void,
-	settings?: Partial<GeminiRequest['generationConfig']>
+	settings?: Partial<GeminiRequest['generationConfig']>,
+	signal?: AbortSignal,
+	onUsage?: (usage: TokenUsage) => void
 ): Promise<void> {
 	try {
 		console.log('getGeminiStreamingCompletion called with real streaming')
@@ -166,7 +247,8 @@ export async function getGeminiStreamingCompletion(
 
 		const genAI = new GoogleGenerativeAI(apiKey)
 		const geminiModel = genAI.getGenerativeModel({
-			model: model || GEMINI_MODELS.GEMINI_1_5_FLASH.name,
+			model: model || GEMINI_MODELS.GEMINI_2_5_FLASH.name,
+			systemInstruction: getSystemInstruction(messages),
 			generationConfig: {
 				...defaultGeminiSettings,
 				...settings
@@ -191,33 +273,24 @@ export async function getGeminiStreamingCompletion(
 			],
 		})
 
-		// Handle system prompt by prepending it to the first user message
-		const systemPrompt = messages.find(msg => msg.role === 'system')?.content
-		const conversationMessages = messages.filter(msg => msg.role !== 'system')
-
-		let prompt = ''
-		if (systemPrompt && conversationMessages.length > 0) {
-			const firstUserMessage = conversationMessages.find(msg => msg.role === 'user')
-			if (firstUserMessage) {
-				prompt = `${systemPrompt}\n\n${firstUserMessage.content}`
-			} else {
-				prompt = conversationMessages[0]?.content || ''
-			}
-		} else {
-			// If no system prompt, use the last user message or combine all messages
-			const userMessages = conversationMessages.filter(msg => msg.role === 'user')
-			prompt = userMessages[userMessages.length - 1]?.content || conversationMessages[conversationMessages.length - 1]?.content || ''
-		}
-
-		console.log('Streaming prompt:', prompt)
+		// Send the whole conversation as alternating user/model turns
+		const contents = convertMessagesToGemini(messages)
+		console.debug('Streaming contents:', contents)
 
 		// Start the real streaming
-		const streamingResult = await geminiModel.generateContentStream([prompt])
+		const streamingResult = await geminiModel.generateContentStream({ contents }, { signal })
 
 		let fullText = ''
 		let isComplete = false
+		// Each chunk carries running totals; the last one is final
+		let usage: TokenUsage | undefined
 
 		for await (const chunk of streamingResult.stream) {
+			if (signal?.aborted) {
+				console.debug('Gemini streaming aborted')
+				return
+			}
+
 			try {
 				// Process the text content if available
 				const chunkText = chunk.text()
@@ -226,6 +299,13 @@ export async function getGeminiStreamingCompletion(
 					onToken(chunkText)
 				}
 
+				if (chunk.usageMetadata) {
+					usage = {
+						promptTokens: chunk.usageMetadata.promptTokenCount,
+						completionTokens: chunk.usageMetadata.candidatesTokenCount
+					}
+				}
+
 				// Check for completion indicators for logging purposes
 				const candidate = chunk.candidates?.[0]
 				if (candidate?.finishReason) {
@@ -254,10 +334,17 @@ export async function getGeminiStreamingCompletion(
 
 		// Log completion status
 		console.log('Gemini streaming completed naturally, completion status:', isComplete ? 'finished with reason' : 'natural end')
+		if (usage) onUsage?.(usage)
 		onComplete(fullText)
 		console.log('Real streaming completed, full text length:', fullText.length)
 
 	} catch (error) {
+		// Stopped by the caller, which keeps the partial text itself
+		if (signal?.aborted) {
+			console.debug('Gemini streaming aborted')
+			return
+		}
+
 		console.error('Gemini streaming error:', error)
 
 		let errorMessage = 'Error streaming from Gemini.'
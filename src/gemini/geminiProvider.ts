@@ -0,0 +1,40 @@
+import { LlmProvider } from '../models/llmProvider'
+import { getTokenizer } from '../models/tokenizers'
+import { countGeminiTokens, GEMINI_MODELS, getGeminiStreamingCompletion } from './geminiAPI'
+
+export const geminiProvider: LlmProvider = {
+	id: 'Gemini',
+
+	capabilities: {
+		streaming: true,
+		vision: true,
+		requiresApiKey: true
+	},
+
+	getModels: () => Object.values(GEMINI_MODELS),
+
+	// No local Gemini tokenizer; estimate, calibrated by reported counts
+	getTokenizer: () => getTokenizer('gemini'),
+
+	validateApiKey: (settings) =>
+		settings.geminiApiKey ? undefined : 'Please set your Gemini API key in the plugin settings',
+
+	streamCompletion: (request, callbacks) =>
+		getGeminiStreamingCompletion(
+			request.settings.geminiApiKey,
+			request.model,
+			request.messages,
+			callbacks.onToken,
+			callbacks.onComplete,
+			callbacks.onError,
+			{
+				temperature: request.temperature,
+				maxOutputTokens: request.maxTokens || undefined
+			},
+			request.signal,
+			callbacks.onUsage
+		),
+
+	countTokens: (request) =>
+		countGeminiTokens(request.settings.geminiApiKey, request.model, request.messages)
+}
@@ -0,0 +1,130 @@
+import { requestUrl } from 'obsidian'
+
+/**
+ * Default address of a local Ollama server
+ */
+export const LOCAL_DEFAULT_URL = 'http://localhost:11434'
+
+/**
+ * Context size assumed when neither the server nor the user provides one
+ */
+export const LOCAL_DEFAULT_CONTEXT_SIZE = 4096
+
+/**
+ * A model reported by a local server
+ */
+export type LocalModelInfo = {
+	name: string,
+	contextLength?: number
+}
+
+/** Ollama `/api/tags` response */
+type OllamaTags = {
+	models?: { name?: string, model?: string }[]
+}
+
+/** Ollama `/api/show` response */
+type OllamaShow = {
+	parameters?: string
+	model_info?: Record<string, unknown>
+}
+
+/** OpenAI-compatible `/v1/models` response, with the context size fields servers add */
+type OpenAICompatibleModels = {
+	data?: {
+		id: string
+		context_length?: unknown
+		max_model_len?: unknown
+		max_context_length?: unknown
+		meta?: { n_ctx_train?: unknown }
+	}[]
+}
+
+const trimUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '')
+
+/**
+ * OpenAI-compatible chat completions endpoint for a server base URL.
+ * Accepts base URLs with or without a trailing `/v1`.
+ */
+export function localChatCompletionsUrl(baseUrl: string) {
+	const url = trimUrl(baseUrl)
+	if (url.endsWith('/chat/completions')) return url
+	return url.endsWith('/v1') ? `${url}/chat/completions` : `${url}/v1/chat/completions`
+}
+
+const authHeaders = (apiKey: string): Record<string, string> =>
+	apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+
+const toPositiveNumber = (value: unknown) =>
+	typeof value === 'number' && value > 0 ? value : undefined
+
+/**
+ * Read the context size from an Ollama `/api/show` response. A `num_ctx`
+ * parameter is what the server actually runs with, so it wins over the
+ * trained context length in `model_info`.
+ */
+function ollamaContextLength(show: OllamaShow | undefined): number | undefined {
+	const numCtx = typeof show?.parameters === 'string'
+		? show.parameters.match(/^\s*num_ctx\s+(\d+)/m)
+		: null
+	if (numCtx) return parseInt(numCtx[1])
+
+	const modelInfo = show?.model_info || {}
+	const key = Object.keys(modelInfo).find(k => k.endsWith('.context_length'))
+	return key ? toPositiveNumber(modelInfo[key]) : undefined
+}
+
+async function fetchOllamaModels(baseUrl: string, apiKey: string): Promise<LocalModelInfo[]> {
+	const tags = await requestUrl({ url: `${baseUrl}/api/tags`, headers: authHeaders(apiKey) })
+	const models = (tags.json as OllamaTags | undefined)?.models || []
+	const names = models.map(m => m.name || m.model).filter((name): name is string => !!name)
+
+	return Promise.all(names.map(async (name) => {
+		try {
+			const show = await requestUrl({
+				url: `${baseUrl}/api/show`,
+				method: 'POST',
+				contentType: 'application/json',
+				body: JSON.stringify({ model: name, name }),
+				headers: authHeaders(apiKey)
+			})
+			return { name, contextLength: ollamaContextLength(show.json) }
+		} catch (err) {
+			console.debug('Failed to read Ollama model details', name, err)
+			return { name }
+		}
+	}))
+}
+
+async function fetchOpenAICompatibleModels(baseUrl: string, apiKey: string): Promise<LocalModelInfo[]> {
+	const modelsUrl = baseUrl.endsWith('/v1') ? `${baseUrl}/models` : `${baseUrl}/v1/models`
+	const res = await requestUrl({ url: modelsUrl, headers: authHeaders(apiKey) })
+
+	const models = (res.json as OpenAICompatibleModels | undefined)?.data || []
+	return models.map(m => ({
+		name: m.id,
+		// Servers disagree on where they report context size
+		contextLength:
+			toPositiveNumber(m.context_length) ||
+			toPositiveNumber(m.max_model_len) ||
+			toPositiveNumber(m.max_context_length) ||
+			toPositiveNumber(m.meta?.n_ctx_train)
+	}))
+}
+
+/**
+ * List models from a local server, trying the Ollama API first and then the
+ * OpenAI-compatible `/v1/models` endpoint (llama.cpp, LM Studio, vLLM, ...).
+ */
+export async function fetchLocalModels(baseUrl: string, apiKey = ''): Promise<LocalModelInfo[]> {
+	const url = trimUrl(baseUrl)
+
+	try {
+		const models = await fetchOllamaModels(url, apiKey)
+		if (models.length) return models
+	} catch (err) {
+		console.debug('Ollama model listing unavailable, trying /v1/models', err)
+	}
+
+	return fetchOpenAICompatibleModels(url, apiKey)
+}
@@ -0,0 +1,52 @@
+import { LlmProvider } from '../models/llmProvider'
+import { DEFAULT_TOKENIZER, getTokenizer } from '../models/tokenizers'
+import { getChatGPTStreamingCompletion } from '../openai/chatGPT'
+import { LOCAL_DEFAULT_CONTEXT_SIZE, localChatCompletionsUrl } from './localAPI'
+
+/**
+ * Any OpenAI-compatible server (Ollama, llama.cpp, LM Studio, ...).
+ * Models come from discovery in settings; no API key is required.
+ */
+export const localProvider: LlmProvider = {
+	id: 'Local',
+
+	capabilities: {
+		streaming: true,
+		vision: false,
+		requiresApiKey: false
+	},
+
+	getModels: (settings) => settings.localModels.map(model => ({
+		name: model.name,
+		tokenLimit: settings.localContextSize || model.contextLength || LOCAL_DEFAULT_CONTEXT_SIZE,
+		tokenizer: DEFAULT_TOKENIZER
+	})),
+
+	// Local models use many tokenizers; estimate, calibrated by reported counts
+	getTokenizer: () => getTokenizer(DEFAULT_TOKENIZER),
+
+	validateApiKey: (settings) => {
+		if (!settings.localApiUrl) return 'Please set your local server URL in the plugin settings'
+		if (!settings.apiModel) return 'Please refresh the local models and select one in the plugin settings'
+		return undefined
+	},
+
+	streamCompletion: (request, callbacks) =>
+		getChatGPTStreamingCompletion(
+			request.settings.localApiKey,
+			localChatCompletionsUrl(request.settings.localApiUrl),
+			request.model,
+			request.messages,
+			callbacks.onToken,
+			callbacks.onComplete,
+			callbacks.onError,
+			{
+				max_tokens: request.maxTokens || undefined,
+				temperature: request.temperature
+			},
+			request.timeoutMs,
+			request.signal,
+			// Some servers reject stream_options, so usage is only recorded when sent unasked
+			callbacks.onUsage
+		)
+}
@@ -0,0 +1,161 @@
+import { openai } from '../openai/chatGPT-types'
+import { InfoverseAICanvasSettings } from '../settings/InfoverseAICanvasSettings'
+
+/**
+ * A model offered by a provider
+ */
+export type ProviderModel = {
+	name: string,
+
+	/**
+	 * Context window in tokens
+	 */
+	tokenLimit: number,
+
+	/**
+	 * Maximum number of tokens the model generates in one response
+	 */
+	maxOutputTokens?: number,
+
+	/**
+	 * Tokenizer registered under this name counts the model's tokens: a
+	 * tiktoken encoding (e.g. `o200k_base`) or model name, or an estimated
+	 * tokenizer (`gemini`, `claude` or `estimate`)
+	 */
+	tokenizer?: string,
+
+	/**
+	 * Capability flags; an unset flag falls back to the provider capabilities
+	 */
+	vision?: boolean,
+	json?: boolean,
+	tools?: boolean,
+
+	/**
+	 * Reasoning model (OpenAI o-series and later) that takes no temperature
+	 * and limits output with `max_completion_tokens`
+	 */
+	reasoning?: boolean
+}
+
+/**
+ * Feature flags describing what a provider supports
+ */
+export interface ProviderCapabilities {
+	/**
+	 * Responses can be streamed token by token
+	 */
+	streaming: boolean
+
+	/**
+	 * Image parts in messages are understood by the model
+	 */
+	vision: boolean
+
+	/**
+	 * Requests cannot be made without an API key
+	 */
+	requiresApiKey: boolean
+}
+
+/**
+ * Counts and truncates text in model tokens
+ */
+export interface Tokenizer {
+	count(text: string): number
+	truncate(text: string, maxTokens: number): string
+
+	/**
+	 * Adjust an estimating tokenizer after the provider counted `actual`
+	 * tokens where it estimated `estimated`. Exact tokenizers omit this.
+	 */
+	calibrate?(estimated: number, actual: number): void
+}
+
+/**
+ * A single chat completion request, independent of provider
+ */
+export interface CompletionRequest {
+	settings: InfoverseAICanvasSettings
+	model: string
+
+	/**
+	 * Catalog entry of the model, when it is known
+	 */
+	modelInfo?: ProviderModel
+
+	messages: openai.ChatCompletionRequestMessage[]
+	temperature?: number
+	maxTokens?: number
+	timeoutMs?: number
+
+	/**
+	 * Aborts the request when the user stops the generation
+	 */
+	signal?: AbortSignal
+}
+
+/**
+ * Tokens used by one request
+ */
+export type TokenUsage = {
+	promptTokens: number,
+	completionTokens: number
+}
+
+/**
+ * Callbacks fed by a streaming completion
+ */
+export interface StreamingCallbacks {
+	onToken: (token: string) => void
+	onComplete: (fullText: string) => void
+	onError: (error: Error) => void
+
+	/**
+	 * Token counts reported by the API, called before onComplete when the
+	 * provider returns them
+	 */
+	onUsage?: (usage: TokenUsage) => void
+}
+
+/**
+ * An LLM backend that can be registered with the provider registry.
+ * Implementations translate the OpenAI-style message list built from
+ * the canvas into whatever their API expects.
+ */
+export interface LlmProvider {
+	/**
+	 * Unique id, also shown as the provider name in settings
+	 */
+	readonly id: string
+
+	readonly capabilities: ProviderCapabilities
+
+	/**
+	 * Models available for selection
+	 */
+	getModels(settings: InfoverseAICanvasSettings): ProviderModel[]
+
+	/**
+	 * Tokenizer used for context truncation and token counts
+	 */
+	getTokenizer(model: string): Tokenizer
+
+	/**
+	 * Return an error message if the provider cannot be called with the current settings
+	 */
+	validateApiKey(settings: InfoverseAICanvasSettings): string | undefined
+
+	/**
+	 * Stream a completion, reporting progress through the callbacks.
+	 * Errors are reported through onError rather than thrown. A request
+	 * aborted through its signal ends without calling onComplete or onError.
+	 */
+	streamCompletion(request: CompletionRequest, callbacks: StreamingCallbacks): Promise<void>
+
+	/**
+	 * Count the prompt tokens of a request exactly with the provider's API,
+	 * for providers whose tokenizer is only estimated locally
+	 */
+	countTokens?(request: CompletionRequest): Promise<number>
+}
@@ -0,0 +1,69 @@
+import { DEFAULT_CONTEXT_WINDOW, mergeModelCatalog, ModelCatalogEntry, parseModelCatalog } from './modelCatalog'
+
+describe('mergeModelCatalog', () => {
+    const builtIn: ModelCatalogEntry[] = [
+        { provider: 'OpenAI', name: 'gpt-4.1', tokenLimit: 1047576, maxOutputTokens: 32768, vision: true },
+        { provider: 'Gemini', name: 'gemini-2.5-flash', tokenLimit: 1048576 }
+    ]
+
+    it('should override only the fields set on a matching entry', () => {
+        const catalog = mergeModelCatalog(builtIn, [
+            { provider: 'OpenAI', name: 'gpt-4.1', tokenLimit: 200000 }
+        ])
+
+        expect(catalog[0]).toEqual({
+            provider: 'OpenAI', name: 'gpt-4.1', tokenLimit: 200000, maxOutputTokens: 32768, vision: true
+        })
+        expect(builtIn[0].tokenLimit).toBe(1047576)
+    })
+
+    it('should match on provider as well as name', () => {
+        const catalog = mergeModelCatalog(builtIn, [
+            { provider: 'Local', name: 'gpt-4.1', tokenLimit: 4096 }
+        ])
+
+        expect(catalog).toHaveLength(3)
+        expect(catalog[0].tokenLimit).toBe(1047576)
+    })
+
+    it('should add new models with a default context window', () => {
+        const catalog = mergeModelCatalog(builtIn, [
+            { provider: 'OpenAI', name: 'gpt-next', vision: true }
+        ])
+
+        expect(catalog[2]).toEqual({
+            provider: 'OpenAI', name: 'gpt-next', tokenLimit: DEFAULT_CONTEXT_WINDOW, vision: true
+        })
+    })
+
+    it('should remove hidden models', () => {
+        const catalog = mergeModelCatalog(builtIn, [
+            { provider: 'Gemini', name: 'gemini-2.5-flash', hidden: true }
+        ])
+
+        expect(catalog.map(model => model.name)).toEqual(['gpt-4.1'])
+    })
+})
+
+describe('parseModelCatalog', () => {
+    it('should treat empty input as no overrides', () => {
+        expect(parseModelCatalog('  ')).toEqual([])
+    })
+
+    it('should parse valid entries', () => {
+        const entries = parseModelCatalog(
+            '[{"provider": "OpenAI", "name": "o3", "tokenLimit": 200000, "reasoning": true}]'
+        )
+
+        expect(entries).toEqual([{ provider: 'OpenAI', name: 'o3', tokenLimit: 200000, reasoning: true }])
+    })
+
+    it('should reject invalid entries', () => {
+        expect(() => parseModelCatalog('{}')).toThrow('must be a JSON array')
+        expect(() => parseModelCatalog('[{"name": "o3"}]')).toThrow('entry 1 needs a "provider"')
+        expect(() => parseModelCatalog('[{"provider": "OpenAI", "name": "o3", "tokenLimit": -1}]'))
+            .toThrow('"tokenLimit" must be a positive number')
+        expect(() => parseModelCatalog('[{"provider": "OpenAI", "name": "o3", "vision": "yes"}]'))
+            .toThrow('"vision" must be true or false')
+    })
+})
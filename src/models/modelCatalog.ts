@@ -0,0 +1,99 @@
+import { ProviderModel } from './llmProvider'
+
+/**
+ * Context window assumed for catalog entries that do not declare one
+ */
+export const DEFAULT_CONTEXT_WINDOW = 8192
+
+/**
+ * A model in the catalog, tagged with the provider serving it
+ */
+export type ModelCatalogEntry = ProviderModel & {
+	provider: string
+}
+
+/**
+ * A user-defined catalog entry. Entries matching a built-in model by provider
+ * and name override only the fields they set; other entries add new models.
+ */
+export type ModelCatalogOverride = Partial<ProviderModel> & {
+	provider: string,
+	name: string,
+
+	/**
+	 * Remove the model from the catalog
+	 */
+	hidden?: boolean
+}
+
+const isSameModel = (a: { provider: string, name: string }, b: { provider: string, name: string }) =>
+	a.provider === b.provider && a.name === b.name
+
+/**
+ * Apply user overrides to the built-in models
+ */
+export function mergeModelCatalog(
+	builtIn: ModelCatalogEntry[],
+	overrides: ModelCatalogOverride[]
+): ModelCatalogEntry[] {
+	const catalog = builtIn.map(model => ({ ...model }))
+
+	for (const override of overrides) {
+		const { hidden, ...fields } = override
+		const index = catalog.findIndex(model => isSameModel(model, override))
+
+		if (hidden) {
+			if (index >= 0) catalog.splice(index, 1)
+		} else if (index >= 0) {
+			catalog[index] = { ...catalog[index], ...fields }
+		} else {
+			catalog.push({ tokenLimit: DEFAULT_CONTEXT_WINDOW, ...fields })
+		}
+	}
+
+	return catalog
+}
+
+const NUMBER_FIELDS = ['tokenLimit', 'maxOutputTokens']
+const BOOLEAN_FIELDS = ['vision', 'json', 'tools', 'reasoning', 'hidden']
+
+/**
+ * Parse user catalog overrides from JSON, throwing an Error that describes
+ * the first invalid entry.
+ */
+export function parseModelCatalog(json: string): ModelCatalogOverride[] {
+	if (!json.trim()) return []
+
+	const entries = JSON.parse(json)
+	if (!Array.isArray(entries)) {
+		throw new Error('Model catalog must be a JSON array')
+	}
+
+	entries.forEach((entry, i) => {
+		const label = `Model catalog entry ${i + 1}`
+		if (!entry || typeof entry !== 'object') {
+			throw new Error(`${label} must be an object`)
+		}
+		if (typeof entry.provider !== 'string' || !entry.provider) {
+			throw new Error(`${label} needs a "provider"`)
+		}
+		if (typeof entry.name !== 'string' || !entry.name) {
+			throw new Error(`${label} needs a "name"`)
+		}
+		if (entry.tokenizer !== undefined && typeof entry.tokenizer !== 'string') {
+			throw new Error(`${label}: "tokenizer" must be a string`)
+		}
+		NUMBER_FIELDS.forEach(field => {
+			if (entry[field] !== undefined && !(typeof entry[field] === 'number' && entry[field] > 0)) {
+				throw new Error(`${label}: "${field}" must be a positive number`)
+			}
+		})
+		BOOLEAN_FIELDS.forEach(field => {
+			if (entry[field] !== undefined && typeof entry[field] !== 'boolean') {
+				throw new Error(`${label}: "${field}" must be true or false`)
+			}
+		})
+	})
+
+	return entries
+}
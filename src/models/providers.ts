@@ -1,12 +1,97 @@
-import { CHAT_MODELS } from '../openai/chatGPT'
-import { GEMINI_MODELS } from '../gemini/geminiAPI'
+import { LlmProvider, Tokenizer } from './llmProvider'
+import { mergeModelCatalog, ModelCatalogEntry } from './modelCatalog'
+import { getTokenizer } from './tokenizers'
+import { openaiProvider } from '../openai/openaiProvider'
+import { geminiProvider } from '../gemini/geminiProvider'
+import { claudeProvider } from '../anthropic/claudeProvider'
+import { localProvider } from '../local/localProvider'
+import { InfoverseAICanvasSettings } from '../settings/InfoverseAICanvasSettings'
 
 export const PROVIDERS = {
-	OPENAI: 'OpenAI',
-	GEMINI: 'Gemini'
+	OPENAI: openaiProvider.id,
+	GEMINI: geminiProvider.id,
+	ANTHROPIC: claudeProvider.id,
+	LOCAL: localProvider.id
 }
 
-export const ALL_MODELS = [
-	...Object.values(CHAT_MODELS).map(m => ({ ...m, provider: PROVIDERS.OPENAI })),
-	...Object.values(GEMINI_MODELS).map(m => ({ ...m, provider: PROVIDERS.GEMINI }))
-]
+const registry = new Map<string, LlmProvider>()
+
+/**
+ * Register a provider, replacing any provider with the same id
+ */
+export function registerProvider(provider: LlmProvider) {
+	registry.set(provider.id, provider)
+}
+
+export function getProvider(id: string) {
+	return registry.get(id)
+}
+
+/**
+ * All registered providers, in registration order
+ */
+export function getProviders() {
+	return Array.from(registry.values())
+}
+
+/**
+ * Built-in models of all registered providers with the user's catalog
+ * overrides from settings applied. Models of unregistered providers are dropped.
+ */
+export function getModelCatalog(settings: InfoverseAICanvasSettings): ModelCatalogEntry[] {
+	const builtIn = getProviders().reduce(
+		(models, provider) => models.concat(
+			provider.getModels(settings).map(model => ({ ...model, provider: provider.id }))
+		),
+		[] as ModelCatalogEntry[]
+	)
+	return mergeModelCatalog(builtIn, settings.modelCatalog || [])
+		.filter(model => registry.has(model.provider))
+}
+
+/**
+ * Catalog entry for a model, preferring the entry of the given provider
+ */
+export function getCatalogModel(
+	settings: InfoverseAICanvasSettings,
+	modelName: string,
+	providerId?: string
+): ModelCatalogEntry | undefined {
+	const matches = getModelCatalog(settings).filter(model => model.name === modelName)
+	return matches.find(model => model.provider === providerId) || matches[0]
+}
+
+/**
+ * Find the provider serving a model. The preferred provider (the one selected
+ * in settings) always wins, so a model the user picked for it is never sent
+ * elsewhere; otherwise the provider listing the model, then OpenAI.
+ */
+export function getProviderForModel(
+	settings: InfoverseAICanvasSettings,
+	modelName: string,
+	preferredId?: string
+): LlmProvider {
+	const model = getCatalogModel(settings, modelName, preferredId)
+	const owner = model ? registry.get(model.provider) : undefined
+	const preferred = preferredId ? registry.get(preferredId) : undefined
+	return preferred || owner || openaiProvider
+}
+
+/**
+ * Tokenizer for a model, using the catalog tokenizer when one is set
+ */
+export function getModelTokenizer(
+	settings: InfoverseAICanvasSettings,
+	modelName: string,
+	providerId?: string
+): Tokenizer {
+	const model = getCatalogModel(settings, modelName, providerId)
+	return model?.tokenizer
+		? getTokenizer(model.tokenizer)
+		: getProviderForModel(settings, modelName, providerId).getTokenizer(modelName)
+}
+
+registerProvider(openaiProvider)
+registerProvider(geminiProvider)
+registerProvider(claudeProvider)
+registerProvider(localProvider)
@@ -0,0 +1,46 @@
+import { InfoverseAICanvasSettings } from '../settings/InfoverseAICanvasSettings'
+import { migrateRetiredModels, replaceRetiredModel } from './retiredModels'
+
+describe('replaceRetiredModel', () => {
+    it('should replace retired models and keep current ones', () => {
+        expect(replaceRetiredModel('gpt-4-32k')).toBe('gpt-4-turbo')
+        expect(replaceRetiredModel('gemini-1.5-pro')).toBe('gemini-2.5-pro')
+        expect(replaceRetiredModel('gpt-4')).toBe('gpt-4')
+        expect(replaceRetiredModel('gpt-4o')).toBe('gpt-4o')
+    })
+
+    it('should keep retired models that are listed again', () => {
+        expect(replaceRetiredModel('gemini-1.5-pro', name => name === 'gemini-1.5-pro')).toBe('gemini-1.5-pro')
+    })
+})
+
+describe('migrateRetiredModels', () => {
+    const settings = () => ({
+        apiModel: 'gpt-4-32k',
+        summaryModel: '',
+        fallbackModels: ['gemini-1.5-flash', 'gpt-4o'],
+        comparisonModels: ['gpt-4o', 'gemini-1.5-pro'],
+        lastModels: { OpenAI: 'gpt-4-32k', Gemini: 'gemini-1.5-pro' }
+    }) as unknown as InfoverseAICanvasSettings
+
+    it('should migrate every setting naming a model', () => {
+        const migrated = settings()
+        migrateRetiredModels(migrated, () => false)
+
+        expect(migrated).toEqual({
+            apiModel: 'gpt-4-turbo',
+            summaryModel: '',
+            fallbackModels: ['gemini-2.5-flash', 'gpt-4o'],
+            comparisonModels: ['gpt-4o', 'gemini-2.5-pro'],
+            lastModels: { OpenAI: 'gpt-4-turbo', Gemini: 'gemini-2.5-pro' }
+        })
+    })
+
+    it('should keep models the catalog still lists', () => {
+        const migrated = settings()
+        migrateRetiredModels(migrated, name => name === 'gemini-1.5-pro')
+
+        expect(migrated.comparisonModels).toEqual(['gpt-4o', 'gemini-1.5-pro'])
+        expect(migrated.lastModels).toEqual({ OpenAI: 'gpt-4-turbo', Gemini: 'gemini-1.5-pro' })
+    })
+})
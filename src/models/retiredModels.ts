@@ -0,0 +1,39 @@
+import { InfoverseAICanvasSettings } from '../settings/InfoverseAICanvasSettings'
+
+/**
+ * Models their provider no longer serves, with the model that replaces
+ * each. Saved settings naming them are migrated on load so they keep the
+ * right provider and context window.
+ */
+export const RETIRED_MODELS: Record<string, string> = {
+	'gpt-3.5-turbo-16k': 'gpt-3.5-turbo',
+	'gpt-4-32k': 'gpt-4-turbo',
+	'gpt-4-32k-0613': 'gpt-4-turbo',
+	'gemini-1.5-pro': 'gemini-2.5-pro',
+	'gemini-1.5-flash': 'gemini-2.5-flash',
+	'gemini-2.5-pro-preview-05-06': 'gemini-2.5-pro',
+	'gemini-2.5-flash-preview-05-20': 'gemini-2.5-flash'
+}
+
+/**
+ * The model replacing a retired one, or the name itself. Names that are
+ * `listed`, e.g. added back through the model catalog, are kept.
+ */
+export function replaceRetiredModel(name: string, listed: (name: string) => boolean = () => false) {
+	return RETIRED_MODELS[name] && !listed(name) ? RETIRED_MODELS[name] : name
+}
+
+/**
+ * Replace retired models everywhere settings name a model, except those
+ * still `listed` in the model catalog
+ */
+export function migrateRetiredModels(settings: InfoverseAICanvasSettings, listed: (name: string) => boolean) {
+	const replace = (name: string) => replaceRetiredModel(name, listed)
+	settings.apiModel = replace(settings.apiModel)
+	if (settings.summaryModel) settings.summaryModel = replace(settings.summaryModel)
+	settings.fallbackModels = settings.fallbackModels.map(replace)
+	settings.comparisonModels = settings.comparisonModels.map(replace)
+	Object.keys(settings.lastModels).forEach(provider => {
+		settings.lastModels[provider] = replace(settings.lastModels[provider])
+	})
+}
@@ -0,0 +1,249 @@
+import { InfoverseAICanvasSettings } from '../settings/InfoverseAICanvasSettings'
+import { RequestScheduler } from '../util/requestScheduler'
+import { LlmProvider, StreamingCallbacks, Tokenizer } from './llmProvider'
+import { streamingCaller } from './streamingCall'
+
+// What a fake provider does on one request
+type Script = { tokens?: string[], error?: Error }
+
+describe('streamingCaller', () => {
+    let requests: string[]
+    let delays: number[]
+
+    // Counts characters, so token counts are easy to follow
+    const tokenizer: Tokenizer = {
+        count: (text) => text.length,
+        truncate: (text, maxTokens) => text.slice(0, maxTokens)
+    }
+
+    const fakeProvider = (id: string, scripts: Script[], configured = true): LlmProvider => ({
+        id,
+        capabilities: { streaming: true, vision: false, requiresApiKey: true },
+        getModels: () => [],
+        getTokenizer: () => tokenizer,
+        validateApiKey: () => configured ? undefined : `${id} API key is not set`,
+        streamCompletion: async ({ model }, callbacks) => {
+            requests.push(model)
+            const { tokens = [], error } = scripts.shift() || { tokens: ['ok'] }
+            tokens.forEach(callbacks.onToken)
+            if (error) {
+                callbacks.onError(error)
+            } else {
+                callbacks.onComplete(tokens.join(''))
+            }
+        }
+    })
+
+    const settings = (overrides: Partial<InfoverseAICanvasSettings> = {}) => ({
+        apiModel: 'gpt-4o',
+        provider: 'OpenAI',
+        streamingRetryAttempts: 2,
+        fallbackModels: [],
+        ...overrides
+    }) as unknown as InfoverseAICanvasSettings
+
+    const caller = (providers: Record<string, LlmProvider>, overBudget: string[] = []) => {
+        const providerFor = (modelName: string) =>
+            providers[modelName] || providers['gpt-4o']
+        return streamingCaller({
+            scheduler: new RequestScheduler(() => ({ maxConcurrent: 0, rateLimit: () => undefined })),
+            getProvider: (callSettings) => providerFor(callSettings.apiModel),
+            getProviderForModel: (_callSettings, modelName) => providerFor(modelName),
+            getTokenizer: () => tokenizer,
+            getModelInfo: () => undefined,
+            getMaxResponseTokens: () => undefined,
+            isOverBudget: (callSettings) => overBudget.includes(providerFor(callSettings.apiModel).id),
+            logDebug: () => undefined,
+            sleep: async (ms) => { delays.push(ms) }
+        })
+    }
+
+    const callbacks = () => {
+        const events: string[] = []
+        const result = {
+            events,
+            onToken: (token: string) => events.push(`token ${token}`),
+            onComplete: (fullText: string) => events.push(`complete ${fullText}`),
+            onError: (error: Error) => events.push(`error ${error.message}`),
+            onRetry: (attempt: number, delayMs: number) => events.push(`retry ${attempt} after ${delayMs}`),
+            onModel: (modelSettings: InfoverseAICanvasSettings) => events.push(`model ${modelSettings.apiModel}`)
+        }
+        return result as StreamingCallbacks & typeof result
+    }
+
+    beforeEach(() => {
+        requests = []
+        delays = []
+        jest.spyOn(Math, 'random').mockReturnValue(0)
+    })
+
+    afterEach(() => {
+        jest.restoreAllMocks()
+    })
+
+    describe('retries', () => {
+        it('repeats rate limited and server errors before the first token', async () => {
+            const provider = fakeProvider('OpenAI', [
+                { error: new Error('HTTP 429: Too Many Requests') },
+                { error: new Error('HTTP 503: Service Unavailable') },
+                { tokens: ['Hel', 'lo'] }
+            ])
+            const call = callbacks()
+
+            await caller({ 'gpt-4o': provider }).callAIStreaming(settings(), [{ role: 'user', content: 'Hi' }], call)
+
+            expect(requests).toEqual(['gpt-4o', 'gpt-4o', 'gpt-4o'])
+            expect(call.events).toEqual([
+                'model gpt-4o',
+                'retry 1 after 500',
+                'retry 2 after 1000',
+                'token Hel',
+                'token lo',
+                'complete Hello'
+            ])
+            expect(delays).toEqual([500, 1000])
+        })
+
+        it('gives up after the configured attempts', async () => {
+            const provider = fakeProvider('OpenAI', [
+                { error: new Error('HTTP 500: one') },
+                { error: new Error('HTTP 500: two') },
+                { error: new Error('HTTP 500: three') },
+                { tokens: ['never'] }
+            ])
+            const call = callbacks()
+
+            await caller({ 'gpt-4o': provider }).callAIStreaming(settings(), [{ role: 'user', content: 'Hi' }], call)
+
+            expect(requests).toHaveLength(3)
+            expect(call.events).toEqual([
+                'model gpt-4o',
+                'retry 1 after 500',
+                'retry 2 after 1000',
+                'error HTTP 500: three'
+            ])
+        })
+
+        it('does not retry without configured attempts', async () => {
+            const provider = fakeProvider('OpenAI', [{ error: new Error('HTTP 429: slow down') }])
+            const call = callbacks()
+
+            await caller({ 'gpt-4o': provider }).callAIStreaming(
+                settings({ streamingRetryAttempts: 0 }), [{ role: 'user', content: 'Hi' }], call
+            )
+
+            expect(requests).toHaveLength(1)
+            expect(call.events).toEqual(['model gpt-4o', 'error HTTP 429: slow down'])
+        })
+
+        it('does not retry once tokens have streamed', async () => {
+            const provider = fakeProvider('OpenAI', [
+                { tokens: ['Par', 'tial'], error: new Error('socket hang up') },
+                { tokens: ['again'] }
+            ])
+            const call = callbacks()
+
+            await caller({ 'gpt-4o': provider }).callAIStreaming(settings(), [{ role: 'user', content: 'Hi' }], call)
+
+            expect(requests).toHaveLength(1)
+            expect(call.events).toEqual(['model gpt-4o', 'token Par', 'token tial', 'error socket hang up'])
+            expect(delays).toEqual([])
+        })
+
+        it('does not retry errors that are not retryable', async () => {
+            const provider = fakeProvider('OpenAI', [{ error: new Error('HTTP 401: Unauthorized') }])
+            const call = callbacks()
+
+            await caller({ 'gpt-4o': provider }).callAIStreaming(settings(), [{ role: 'user', content: 'Hi' }], call)
+
+            expect(requests).toHaveLength(1)
+            expect(call.events).toEqual(['model gpt-4o', 'error HTTP 401: Unauthorized'])
+            expect(delays).toEqual([])
+        })
+
+        it('reports the backoff delay to onRetry', async () => {
+            jest.spyOn(Math, 'random').mockReturnValue(1)
+            const provider = fakeProvider('OpenAI', [
+                { error: new Error('socket hang up') },
+                { error: new Error('socket hang up') }
+            ])
+            const onRetry = jest.fn()
+
+            await caller({ 'gpt-4o': provider }).callAIStreaming(
+                settings(), [{ role: 'user', content: 'Hi' }], { ...callbacks(), onRetry }
+            )
+
+            expect(onRetry.mock.calls).toEqual([
+                [1, 1000, new Error('socket hang up')],
+                [2, 2000, new Error('socket hang up')]
+            ])
+            expect(delays).toEqual([1000, 2000])
+        })
+    })
+
+    describe('fallback models', () => {
+        it('moves to the next model after a retryable failure', async () => {
+            const openai = fakeProvider('OpenAI', [{ error: new Error('HTTP 429: Too Many Requests') }])
+            const claude = fakeProvider('Anthropic', [{ tokens: ['Hi'] }])
+            const call = callbacks()
+
+            await caller({ 'gpt-4o': openai, 'claude-sonnet-4': claude }).callAIStreaming(
+                settings({ fallbackModels: ['claude-sonnet-4'] }), [{ role: 'user', content: 'Hi' }], call
+            )
+
+            expect(requests).toEqual(['gpt-4o', 'claude-sonnet-4'])
+            expect(call.events).toEqual(['model gpt-4o', 'model claude-sonnet-4', 'token Hi', 'complete Hi'])
+            expect(delays).toEqual([])
+        })
+
+        it('retries the last model once the chain is used up', async () => {
+            const openai = fakeProvider('OpenAI', [{ error: new Error('HTTP 503: Unavailable') }])
+            const claude = fakeProvider('Anthropic', [{ error: new Error('overloaded') }, { tokens: ['Hi'] }])
+            const call = callbacks()
+
+            await caller({ 'gpt-4o': openai, 'claude-sonnet-4': claude }).callAIStreaming(
+                settings({ fallbackModels: ['claude-sonnet-4'] }), [{ role: 'user', content: 'Hi' }], call
+            )
+
+            expect(requests).toEqual(['gpt-4o', 'claude-sonnet-4', 'claude-sonnet-4'])
+            expect(call.events).toEqual([
+                'model gpt-4o',
+                'model claude-sonnet-4',
+                'retry 1 after 500',
+                'token Hi',
+                'complete Hi'
+            ])
+        })
+
+        it('does not fall back on errors that are not retryable', async () => {
+            const openai = fakeProvider('OpenAI', [{ error: new Error('HTTP 400: Bad Request') }])
+            const claude = fakeProvider('Anthropic', [])
+            const call = callbacks()
+
+            await caller({ 'gpt-4o': openai, 'claude-sonnet-4': claude }).callAIStreaming(
+                settings({ fallbackModels: ['claude-sonnet-4'] }), [{ role: 'user', content: 'Hi' }], call
+            )
+
+            expect(requests).toEqual(['gpt-4o'])
+            expect(call.events).toEqual(['model gpt-4o', 'error HTTP 400: Bad Request'])
+        })
+
+        it('skips unconfigured and over budget providers', () => {
+            const { getModelChain } = caller({
+                'gpt-4o': fakeProvider('OpenAI', []),
+                'gemini-2.5-pro': fakeProvider('Gemini', [], false),
+                'claude-sonnet-4': fakeProvider('Anthropic', []),
+                'llama3': fakeProvider('Local', [])
+            }, ['Anthropic'])
+
+            const chain = getModelChain(settings({
+                fallbackModels: ['gemini-2.5-pro', 'claude-sonnet-4', 'gpt-4o', 'llama3']
+            }))
+
+            expect(chain.map(s => [s.apiModel, s.provider])).toEqual([
+                ['gpt-4o', 'OpenAI'],
+                ['llama3', 'Local']
+            ])
+        })
+    })
+})
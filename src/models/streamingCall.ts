@@ -0,0 +1,204 @@
+import { openai } from '../openai/chatGPT-types'
+import { InfoverseAICanvasSettings } from '../settings/InfoverseAICanvasSettings'
+import { Logger } from '../util/logging'
+import { RequestScheduler } from '../util/requestScheduler'
+import { backoffDelay, isRetryableError } from '../util/retry'
+import { LlmProvider, ProviderModel, StreamingCallbacks, TokenUsage, Tokenizer } from './llmProvider'
+
+/**
+ * Callbacks of a streaming call, on top of those of a single request
+ */
+export type StreamingCallCallbacks = StreamingCallbacks & {
+	onRetry?: (attempt: number, delayMs: number, error: Error) => void
+	onModel?: (modelSettings: InfoverseAICanvasSettings, error?: Error) => void
+	onQueue?: (position: number) => void
+	// Tokens used by each request that produced output, estimated
+	// locally when the provider does not report them
+	onRequestUsage?: (usage: TokenUsage, modelSettings: InfoverseAICanvasSettings, estimated: boolean) => void
+}
+
+/**
+ * What streaming calls need from the note generator
+ */
+export type StreamingCallContext = {
+	scheduler: RequestScheduler,
+
+	/**
+	 * Provider serving the selected model of the settings
+	 */
+	getProvider: (callSettings: InfoverseAICanvasSettings) => LlmProvider,
+
+	/**
+	 * Provider listing a fallback model
+	 */
+	getProviderForModel: (callSettings: InfoverseAICanvasSettings, modelName: string) => LlmProvider,
+
+	getTokenizer: (callSettings: InfoverseAICanvasSettings) => Tokenizer,
+	getModelInfo: (callSettings: InfoverseAICanvasSettings) => ProviderModel | undefined,
+	getMaxResponseTokens: (callSettings: InfoverseAICanvasSettings) => number | undefined,
+
+	/**
+	 * Whether a hard budget limit blocks the provider of the settings
+	 */
+	isOverBudget: (callSettings: InfoverseAICanvasSettings) => boolean,
+
+	logDebug: Logger,
+
+	/**
+	 * Wait between retries
+	 */
+	sleep?: (ms: number) => Promise<unknown>
+}
+
+/**
+ * Tokens in the text of the messages; image parts are not counted
+ */
+export function countMessageTokens(tokenizer: Tokenizer, messages: openai.ChatCompletionRequestMessage[]) {
+	return messages.reduce(
+		(sum, message) => sum + (typeof message.content === 'string' ? tokenizer.count(message.content) : 0),
+		0
+	)
+}
+
+/**
+ * Streaming calls with retries and model fallback
+ */
+export function streamingCaller(context: StreamingCallContext) {
+	const { scheduler, getProvider, getTokenizer, logDebug } = context
+	const sleep = context.sleep || ((ms: number) => new Promise(resolve => setTimeout(resolve, ms)))
+
+	/**
+	 * Settings for each model to try, in order: the selected model, then the
+	 * configured fallback models that can be called with the current settings
+	 * and whose provider is not over a hard budget limit. Only the selected
+	 * model asks before going over budget, so fallbacks are skipped quietly.
+	 */
+	const getModelChain = (callSettings: InfoverseAICanvasSettings) => {
+		const chain = [callSettings]
+		for (const modelName of callSettings.fallbackModels || []) {
+			if (chain.some(s => s.apiModel === modelName)) continue
+
+			const provider = context.getProviderForModel(callSettings, modelName)
+			const fallbackSettings = { ...callSettings, apiModel: modelName, provider: provider.id }
+			if (provider.validateApiKey(fallbackSettings)) {
+				logDebug(`Skipping fallback model ${modelName}, ${provider.id} is not configured`)
+				continue
+			}
+			if (context.isOverBudget(fallbackSettings)) {
+				logDebug(`Skipping fallback model ${modelName}, ${provider.id} is over budget`)
+				continue
+			}
+			chain.push(fallbackSettings)
+		}
+		return chain
+	}
+
+	/**
+	 * Tokens a request counts against a provider's tokens per minute limit:
+	 * the prompt plus the response token limit
+	 */
+	const estimateRequestTokens = (
+		callSettings: InfoverseAICanvasSettings,
+		messages: openai.ChatCompletionRequestMessage[]
+	) => countMessageTokens(getTokenizer(callSettings), messages) + (context.getMaxResponseTokens(callSettings) || 0)
+
+	// Streaming API call function. Retryable failures (rate limits, server
+	// errors, dropped connections) before the first token switch to the next
+	// model in the fallback chain; otherwise they are re-requested with
+	// exponential backoff, calling onRetry. A stream that fails after its
+	// first token is not repeated.
+	const callAIStreaming = async (
+		callSettings: InfoverseAICanvasSettings,
+		messages: openai.ChatCompletionRequestMessage[],
+		callbacks: StreamingCallCallbacks,
+		signal?: AbortSignal
+	): Promise<void> => {
+		const maxRetries = callSettings.streamingRetryAttempts || 0
+		const chain = getModelChain(callSettings)
+		let modelIndex = 0
+		let modelSettings = chain[0]
+		callbacks.onModel?.(modelSettings)
+
+		for (let attempt = 1; ; attempt++) {
+			let failure = null as Error | null
+			let receivedToken = false
+			let queued = false
+			let receivedText = ''
+			let usage: TokenUsage | undefined
+
+			const provider = getProvider(modelSettings)
+			await scheduler.schedule(provider.id, estimateRequestTokens(modelSettings, messages), () => {
+				// Position 0 tells a queued request that it has started
+				if (queued) callbacks.onQueue?.(0)
+
+				return provider.streamCompletion({
+					settings: modelSettings,
+					model: modelSettings.apiModel,
+					modelInfo: context.getModelInfo(modelSettings),
+					messages,
+					temperature: modelSettings.temperature,
+					maxTokens: context.getMaxResponseTokens(modelSettings),
+					timeoutMs: modelSettings.streamingTimeout || 30000, // Use timeout from settings
+					signal
+				}, {
+					onToken: (token) => {
+						receivedToken = true
+						receivedText += token
+						callbacks.onToken(token)
+					},
+					onComplete: callbacks.onComplete,
+					onError: (error) => { failure = error },
+					onUsage: (reported) => { usage = reported }
+				})
+			}, (position) => {
+				queued = true
+				callbacks.onQueue?.(position)
+			}, signal)
+
+			const tokenizer = getTokenizer(modelSettings)
+			// Reported prompt tokens calibrate estimated tokenizers
+			if (usage && messages.every(message => typeof message.content === 'string')) {
+				tokenizer.calibrate?.(countMessageTokens(tokenizer, messages), usage.promptTokens)
+			}
+
+			if (usage || receivedToken) {
+				callbacks.onRequestUsage?.(
+					usage || {
+						promptTokens: countMessageTokens(tokenizer, messages),
+						completionTokens: tokenizer.count(receivedText)
+					},
+					modelSettings,
+					!usage
+				)
+			}
+
+			if (!failure || signal?.aborted) return
+
+			if (receivedToken || !isRetryableError(failure)) {
+				callbacks.onError(failure)
+				return
+			}
+
+			if (modelIndex < chain.length - 1) {
+				modelSettings = chain[++modelIndex]
+				attempt = 0
+				logDebug(`Falling back to ${modelSettings.apiModel}`, failure)
+				callbacks.onModel?.(modelSettings, failure)
+				continue
+			}
+
+			if (attempt > maxRetries) {
+				callbacks.onError(failure)
+				return
+			}
+
+			const delayMs = backoffDelay(attempt)
+			logDebug(`Retryable error, attempt ${attempt}/${maxRetries} in ${delayMs}ms`, failure)
+			callbacks.onRetry?.(attempt, delayMs, failure)
+			await sleep(delayMs)
+			if (signal?.aborted) return
+		}
+	}
+
+	return { getModelChain, callAIStreaming }
+}
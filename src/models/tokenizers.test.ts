@@ -0,0 +1,54 @@
+import { calibrateTokenizer, getTokenizer, tiktokenTokenizer } from './tokenizers'
+
+const text = 'The quick brown fox jumps over the lazy dog. '.repeat(20)
+
+describe('getTokenizer', () => {
+    it('should use tiktoken for encodings and known models', () => {
+        const o200k = tiktokenTokenizer('o200k_base')
+
+        expect(getTokenizer('o200k_base').count(text)).toBe(o200k.count(text))
+        expect(getTokenizer('gpt-4o').count(text)).toBe(o200k.count(text))
+        expect(getTokenizer('cl100k_base').calibrate).toBeUndefined()
+    })
+
+    it('should use the encoding of a model name', () => {
+        expect(getTokenizer('gpt-4').count(text)).toBe(tiktokenTokenizer('cl100k_base').count(text))
+    })
+
+    it('should fall back to o200k for models unknown to tiktoken', () => {
+        expect(tiktokenTokenizer('gpt-99').count(text)).toBe(tiktokenTokenizer('o200k_base').count(text))
+    })
+
+    it('should estimate tokens for other tokenizers', () => {
+        const base = tiktokenTokenizer('o200k_base').count(text)
+
+        expect(getTokenizer('gemini').count(text)).toBe(Math.ceil(base * 1.05))
+        expect(getTokenizer('llama-unknown').count(text)).toBe(Math.ceil(base * 1.1))
+    })
+
+    it('should truncate estimated tokens to fit', () => {
+        const tokenizer = getTokenizer('gemini')
+
+        expect(tokenizer.count(tokenizer.truncate(text, 50))).toBeLessThanOrEqual(50)
+    })
+})
+
+describe('calibrateTokenizer', () => {
+    it('should move estimates toward reported counts', () => {
+        const tokenizer = getTokenizer('claude')
+        const before = tokenizer.count(text)
+
+        tokenizer.calibrate?.(before, before * 1.5)
+        const after = tokenizer.count(text)
+
+        expect(after).toBeGreaterThan(before)
+        expect(after).toBeLessThan(before * 1.5)
+    })
+
+    it('should keep the ratio within bounds', () => {
+        const base = tiktokenTokenizer('o200k_base').count(text)
+        for (let i = 0; i < 50; i++) calibrateTokenizer('claude', 100, 1000)
+
+        expect(getTokenizer('claude').count(text)).toBe(base * 2)
+    })
+})
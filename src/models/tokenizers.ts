@@ -0,0 +1,111 @@
+import { Tiktoken, TiktokenEncoding, TiktokenModel, getEncoding, getEncodingNameForModel } from 'js-tiktoken'
+import { Tokenizer } from './llmProvider'
+
+/**
+ * Encoding used when a name is unknown to tiktoken, and as the base count
+ * of estimated tokenizers
+ */
+const FALLBACK_ENCODING: TiktokenEncoding = 'o200k_base'
+
+const ENCODING_NAMES: string[] = ['gpt2', 'r50k_base', 'p50k_base', 'p50k_edit', 'cl100k_base', 'o200k_base']
+
+/**
+ * Estimated tokenizers for models without a local tokenizer, by catalog
+ * `tokenizer` name, with the number of model tokens per o200k token they
+ * start from. Reported token counts refine the ratio with calibrateTokenizer.
+ */
+const ESTIMATED_TOKENIZERS: Record<string, number> = {
+	gemini: 1.05,
+	claude: 1.2,
+	estimate: 1.1
+}
+
+/**
+ * Tokenizer used for names that are neither tiktoken nor estimated tokenizers
+ */
+export const DEFAULT_TOKENIZER = 'estimate'
+
+const isEstimatedName = (name: string) => Object.keys(ESTIMATED_TOKENIZERS).includes(name)
+
+// Parsed encodings by encoding name; building one parses its whole rank table
+const encodings = new Map<TiktokenEncoding, Tiktoken>()
+
+// Current tokens per o200k token of each estimated tokenizer
+const ratios = new Map<string, number>()
+
+/**
+ * Encoding of a tiktoken encoding or model name; undefined for other names.
+ * Looks the name up without building the encoding.
+ */
+function tiktokenEncodingName(name: string): TiktokenEncoding | undefined {
+	if (ENCODING_NAMES.includes(name)) return name as TiktokenEncoding
+	try {
+		return getEncodingNameForModel(name as TiktokenModel)
+	} catch (_) {
+		return undefined
+	}
+}
+
+function getTiktoken(name: string) {
+	const encodingName = tiktokenEncodingName(name) || FALLBACK_ENCODING
+	let encoding = encodings.get(encodingName)
+	if (!encoding) {
+		encoding = getEncoding(encodingName)
+		encodings.set(encodingName, encoding)
+	}
+	return encoding
+}
+
+const isTiktokenName = (name: string) => tiktokenEncodingName(name) !== undefined
+
+/**
+ * Tokenizer backed by a tiktoken encoding, given by encoding name
+ * (e.g. `o200k_base`) or by model name
+ */
+export function tiktokenTokenizer(name: string): Tokenizer {
+	const encoding = getTiktoken(name)
+	return {
+		count: (text: string) => encoding.encode(text).length,
+		truncate: (text: string, maxTokens: number) =>
+			encoding.decode(encoding.encode(text).slice(0, Math.max(0, maxTokens)))
+	}
+}
+
+/**
+ * Tokenizer that estimates a model's tokens from the o200k count, scaled by
+ * a ratio calibrated against counts reported by the provider
+ */
+export function estimatedTokenizer(name: string): Tokenizer {
+	const encoding = getTiktoken(FALLBACK_ENCODING)
+	const key = isEstimatedName(name) ? name : DEFAULT_TOKENIZER
+	const ratio = () => ratios.get(key) ?? ESTIMATED_TOKENIZERS[key]
+	return {
+		count: (text: string) => Math.ceil(encoding.encode(text).length * ratio()),
+		truncate: (text: string, maxTokens: number) =>
+			encoding.decode(encoding.encode(text).slice(0, Math.max(0, Math.floor(maxTokens / ratio())))),
+		calibrate: (estimated: number, actual: number) => calibrateTokenizer(key, estimated, actual)
+	}
+}
+
+/**
+ * Move an estimated tokenizer's ratio toward an observed count. Each
+ * observation moves it 30% of the way, so a single odd request cannot
+ * skew it; the ratio stays between 0.5 and 2.
+ */
+export function calibrateTokenizer(name: string, estimated: number, actual: number) {
+	if (!isEstimatedName(name) || estimated <= 0 || actual <= 0) return
+
+	const ratio = ratios.get(name) ?? ESTIMATED_TOKENIZERS[name]
+	const observed = ratio * actual / estimated
+	ratios.set(name, Math.min(2, Math.max(0.5, ratio + 0.3 * (observed - ratio))))
+}
+
+/**
+ * Tokenizer registered under a catalog `tokenizer` name: a tiktoken
+ * encoding or model name, or an estimated tokenizer such as `gemini`.
+ * Unknown names are estimated.
+ */
+export function getTokenizer(name: string): Tokenizer {
+	if (isEstimatedName(name)) return estimatedTokenizer(name)
+	return isTiktokenName(name) ? tiktokenTokenizer(name) : estimatedTokenizer(DEFAULT_TOKENIZER)
+}
@@ -1,31 +1,82 @@
 /* eslint-disable @typescript-eslint/no-non-null-assertion */
-import { TiktokenModel, encodingForModel } from 'js-tiktoken'
-import { App, ItemView, Notice } from 'obsidian'
-import { CanvasNode } from './obsidian/canvas-internal'
-import { CanvasView, calcHeight, createNode, createGroup, updateGroup } from './obsidian/canvas-patches'
+import { App, ItemView, Notice, parseYaml } from 'obsidian'
+import { CanvasGroupData } from 'obsidian/canvas'
+import { Canvas, CanvasNode } from './obsidian/canvas-internal'
 import {
-	CHAT_MODELS,
-	chatModelByName,
-	ChatModelSettings,
-	getChatGPTStreamingCompletion
-} from './openai/chatGPT'
-import {
-	GEMINI_MODELS,
-	getGeminiStreamingCompletion
-} from './gemini/geminiAPI'
+	CanvasView,
+	calcHeight,
+	connectNodes,
+	createNode,
+	createGroup,
+	labelEdgesTo,
+	NodePlacement,
+	updateGroup
+} from './obsidian/canvas-patches'
 import { openai } from './openai/chatGPT-types'
-import {
-	InfoverseAICanvasSettings,
-	DEFAULT_SETTINGS
-} from './settings/InfoverseAICanvasSettings'
+import { InfoverseAICanvasSettings } from './settings/InfoverseAICanvasSettings'
+import { applyNodeParams, isParamsNode, NodeParams, paramsNodeBody, parseNodeParams } from './settings/nodeParams'
+import { getCatalogModel, getModelTokenizer, getProviderForModel, PROVIDERS } from './models/providers'
+import { TokenUsage } from './models/llmProvider'
+import { streamingCaller } from './models/streamingCall'
+import { DEFAULT_CONTEXT_WINDOW } from './models/modelCatalog'
 import { Logger } from './util/logging'
-import { visitNodeAndAncestors } from './obsidian/canvasUtil'
+import { RequestScheduler } from './util/requestScheduler'
+import { UsageLedger } from './usage/usageLedger'
+import { calculateCost, getModelPrice } from './usage/modelPrices'
+import { describeResponseStats, ResponseStats } from './usage/responseStats'
+import { budgetKey, BudgetStatus, checkBudgets, describeBudgetStatus, periodStart } from './usage/budgets'
+import { BudgetOverrideModal } from './ui/BudgetOverrideModal'
+import { ContextPreviewModal } from './ui/ContextPreviewModal'
+import { BatchPromptModal } from './ui/BatchPromptModal'
+import { assistantColor, stalledMarker, StreamingHandler, TreeNode } from './ui/StreamingHandler'
+import { runWithConcurrency } from './util/concurrency'
+import {
+	buildSummaryRequest,
+	ContextSummaryCache,
+	hashNotes,
+	SummarizedNote,
+	summaryMessage
+} from './util/contextSummary'
+import { HasId, nodeParents, sortSelectedNodes, visitNodeAndAncestors } from './obsidian/canvasUtil'
+import {
+	addVersion,
+	readVersions,
+	stepVersion,
+	updateCurrentVersion,
+	versionData
+} from './obsidian/responseVersions'
+import {
+	contextHighlights,
+	ExcludedNode,
+	highlightContextNodes,
+	MessageSource
+} from './obsidian/contextSources'
 import { readNodeContent } from './obsidian/fileUtil'
+import {
+	containingGroups,
+	NodeContent,
+	nodeContentLabel,
+	nodeContentText,
+	nodeMessageContent,
+	sortCanvasNodes
+} from './obsidian/nodeContent'
 
 /**
- * Color for assistant notes: 6 == purple
+ * Note colors of responses in a model comparison, by provider:
+ * 2 == orange, 3 == yellow, 4 == green, 5 == cyan
  */
-const assistantColor = '6'
+const providerColors: Record<string, string> = {
+	[PROVIDERS.OPENAI]: '4',
+	[PROVIDERS.GEMINI]: '5',
+	[PROVIDERS.ANTHROPIC]: '2',
+	[PROVIDERS.LOCAL]: '3'
+}
+
+/**
+ * Range of the number of responses "Generate variations" creates
+ */
+const minVariations = 2
+const maxVariations = 5
 
 /**
  * Height to use for placeholder note
@@ -38,1211 +89,511 @@ const placeholderNoteHeight = 60
 const emptyNoteHeight = 100
 
 /**
- * Sleep utility function
+ * Share of the input token limit above which the provider is asked for an
+ * exact token count, where the provider supports it
  */
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+const exactCountThreshold = 0.8
 
 /**
- * Represents a node in the hierarchical tree structure
+ * Times the context is trimmed again when the provider counts more tokens
+ * than fit
  */
-interface TreeNode {
-	id: string
-	content: string
-	headerLevel: number
-	headerText: string
-	startIndex: number
-	endIndex: number
-	parentId?: string
-	children: TreeNode[]
-	canvasNode?: CanvasNode
-}
+const maxExactCountAttempts = 3
 
 /**
- * StreamingHandler manages real-time text streaming with header-based live splitting
+ * Most tokens kept free for the summary of overflowing context, and the
+ * longest summary requested
  */
-class StreamingHandler {
-	private currentText = ''
-	private currentNode: CanvasNode | null = null
-	private canvas: any
-	private parentNode: CanvasNode
-	private lastUpdateTime = 0
-	private isCompleted = false
-	private pendingUpdate = false
-	private isPaused = false
-	private retryCount = 0
-	private startTime = 0
-	private tokenCount = 0
-	private errorCount = 0
-	private progressNode: CanvasNode | null = null
-	private controlNode: CanvasNode | null = null
-
-	// Header-based tree splitting properties
-	private treeRoot: TreeNode | null = null
-	private nodeMap = new Map<string, TreeNode>()
-	private lastProcessedLength = 0
-	private enableLiveSplitting = false
-	private nodeCounter = 0
-	// Dynamic hierarchy tracking
-	private firstHeaderLevel: number | null = null // level (1-6) of the first header we encounter
-	private topLevelCurrent: TreeNode | null = null // last node at firstHeaderLevel to attach children to
-
-	// ---------------------------------------------------------------------
-	// Radial layout helpers (streaming)
-	// ---------------------------------------------------------------------
-	private baseRadius() {
-		return this.settings.markdownHierarchySpacing || 300
-	}
-
-	/** Compute depth of a tree node (root=0) */
-	private getDepth(node: TreeNode): number {
-		let depth = 0
-		let current: TreeNode | undefined = node
-		while (current && current.parentId) {
-			const parent = this.nodeMap.get(current.parentId)
-			if (!parent) break
-			depth++
-			current = parent
-		}
-		return depth
-	}
+const maxSummaryTokens = 1000
 
-	/**
-	 * Arrange children of the given parentTreeNode in a radial fashion and
-	 * recursively process deeper levels. Runs lightweight on every new header.
-	 */
-	private applyRadialLayout(parentTreeNode: TreeNode) {
-		const parentCanvas: CanvasNode = parentTreeNode.canvasNode || this.parentNode
-		if (!parentCanvas) return // safety
-
-		const children = parentTreeNode.children.filter(c => c.canvasNode)
-		if (children.length === 0) return
-
-		const n = children.length
-
-		// ------------------------------------------------------------------
-		// Custom angle mapping for the first five root-level children so
-		// that their positions match the exact sequence requested by the
-		// user.  For any deeper levels or n > 5 we keep using the regular
-		// even-spacing algorithm.
-		// ------------------------------------------------------------------
-		const getAngleSequence = (num: number): number[] => {
-			if (num === 1) return [0]
-
-			// Mirrored left-right ordering to keep the layout visually balanced.
-			// Example (n = 6): 0°, 180°, 60°, 240°, 120°, 300°
-			const increment = (2 * Math.PI) / num
-			const bases = Array.from({ length: num }, (_v, i) => i * increment)
-			const ordered: number[] = []
-			while (bases.length) {
-				ordered.push(bases.shift()!)
-				if (bases.length) {
-					ordered.push(bases.pop()!)
-				}
-			}
-			return ordered
-		}
-
-		const angles = getAngleSequence(n)
-
-		// We still need a generic increment value for certain geometric
-		// calculations even when we use a custom sequence.
-		const angleIncrement = n === 1 ? 0 : (2 * Math.PI) / n
-
-		// Size-aware radius calculation --------------------------------------------------
-		const margin = 40
-		// --- Determine dimensions -------------------------------------------------
-		const maxChildWidth = Math.max(...children.map(c => c.canvasNode!.width))
-		const maxChildHeight = Math.max(...children.map(c => c.canvasNode!.height))
-		// Half-diagonals (distance from center to farthest corner)
-		const childHalfDiag = Math.sqrt(Math.pow(maxChildWidth / 2, 2) + Math.pow(maxChildHeight / 2, 2))
-		const parentHalfDiag = Math.sqrt(Math.pow(parentCanvas.width / 2, 2) + Math.pow(parentCanvas.height / 2, 2))
-		// a) radius so that children don't overlap each other (circle-packing)
-		const childCircleRadius = n === 1 ? 0 : (childHalfDiag * 2 + margin) / (2 * Math.sin(angleIncrement / 2))
-		// b) radius so that children clear the parent completely
-		const parentClearRadius = parentHalfDiag + childHalfDiag + margin
-		const minRadius = Math.max(childCircleRadius, parentClearRadius)
-		// c) User-configurable base radius scaled by hierarchy depth
-		const depthLevel = this.getDepth(parentTreeNode) + 1 // children are one level deeper
-		const baseDepthRadius = this.baseRadius() + (depthLevel - 1) * 150
-		// Final radius meets all constraints
-		let radius = Math.max(baseDepthRadius, minRadius)
-
-		// Give extra breathing space when we have many children (default-case path)
-		if (n > 5) {
-			radius *= 1.2
-		}
-
-		children.forEach((child, idx) => {
-			const angle = angles[idx % angles.length]
-			let newX = parentCanvas.x + radius * Math.cos(angle)
-			let newY = parentCanvas.y + radius * Math.sin(angle)
+/**
+ * Sleep utility function
+ */
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
 
-			// Clamp to a reasonable viewport (avoid negative off-canvas positions)
-			newX = Math.max(50, newX)
-			newY = Math.max(0, newY)
+/**
+ * Content of the nodes read during one generation, by node id, so the
+ * passes over the ancestors read each note, image and file only once
+ */
+type NodeContents = Map<string, NodeContent | undefined>
 
-			child.canvasNode!.moveAndResize({
-				x: newX,
-				y: newY,
-				width: child.canvasNode!.width,
-				height: child.canvasNode!.height
-			})
+export function noteGenerator(
+	app: App,
+	settings: InfoverseAICanvasSettings,
+	logDebug: Logger,
+	usageLedger: UsageLedger,
+	saveSettings: () => Promise<void>
+) {
+	// Store reference to the last streaming handler for debugging
+	let lastStreamingHandler: StreamingHandler | null = null
 
-			// Recursive layout for grandchildren
-			if (child.children.length) {
-				this.applyRadialLayout(child)
-			}
-		})
-	}
+	// Generations that are still streaming, so they can be stopped
+	const activeHandlers = new Set<StreamingHandler>()
 
-	constructor(
-		canvas: any,
-		parentNode: CanvasNode,
-		initialNode: CanvasNode,
-		private settings: InfoverseAICanvasSettings,
-		private logDebug: Logger
-	) {
-		this.canvas = canvas
-		this.parentNode = parentNode
-		this.currentNode = initialNode
-		this.startTime = Date.now()
-		this.enableLiveSplitting = settings.enableMarkdownSplitting && settings.enableStreamingSplit
-
-		// Debug log the initialization
-		this.logDebug(`StreamingHandler initialized:`, {
-			enableMarkdownSplitting: settings.enableMarkdownSplitting,
-			enableStreamingSplit: settings.enableStreamingSplit,
-			enableLiveSplitting: this.enableLiveSplitting
-		})
+	// Queues requests from every canvas within the configured limits
+	const scheduler = new RequestScheduler(() => ({
+		maxConcurrent: settings.maxConcurrentRequests,
+		rateLimit: (provider) => settings.providerRateLimits[provider]
+	}))
 
-		// Initialize the tree structure if live splitting is enabled
-		if (this.enableLiveSplitting) {
-			this.initializeTreeStructure(initialNode)
-			this.logDebug('Header-based live splitting enabled, tree structure initialized')
-		}
+	const canCallAI = async (callSettings: InfoverseAICanvasSettings) => {
+		const error = getProvider(callSettings).validateApiKey(callSettings)
 
-		// Initialize progress tracking if enabled
-		if (this.settings.showStreamingProgress) {
-			this.createProgressIndicator()
+		if (error) {
+			new Notice(error)
+			return false
 		}
 
-		// Initialize streaming controls if enabled
-		if (this.settings.enableStreamingControls) {
-			this.createStreamingControls()
-		}
+		return checkBudget(callSettings)
 	}
 
 	/**
-	 * Initialize the tree structure with the initial node
+	 * canCallAI for runs of many requests: each provider is checked once, and
+	 * requests started while the user decides wait for the same answer
+	 * instead of asking again
 	 */
-	private initializeTreeStructure(initialNode: CanvasNode) {
-		this.treeRoot = {
-			id: `node-${this.nodeCounter++}`,
-			content: '',
-			headerLevel: 0,
-			headerText: 'Root',
-			startIndex: 0,
-			endIndex: 0,
-			children: [],
-			canvasNode: initialNode
+	const createCallGate = () => {
+		const decisions = new Map<string, Promise<boolean>>()
+		return (callSettings: InfoverseAICanvasSettings) => {
+			const providerId = getProvider(callSettings).id
+			let decision = decisions.get(providerId)
+			if (!decision) {
+				decision = canCallAI(callSettings)
+				decisions.set(providerId, decision)
+			}
+			return decision
 		}
-		this.nodeMap.set(this.treeRoot.id, this.treeRoot)
-		this.logDebug('Tree structure initialized with root node')
-	}
-
-	/**
-	 * Get current text for external access
-	 */
-	getCurrentText(): string {
-		return this.currentText
 	}
 
-	/**
-	 * Create a progress indicator node
-	 */
-	private createProgressIndicator() {
-		try {
-			const progressText = this.enableLiveSplitting
-				? '📊 Streaming with header-based splitting: 0 tokens, 0 chars/sec'
-				: '📊 Streaming: 0 tokens, 0 chars/sec'
+	// Whether a hard limit was overridden for the budget's current period
+	const isOverridden = (status: BudgetStatus, now: number) =>
+		settings.budgetOverrides[budgetKey(status.budget)] === periodStart(status.budget.period, now)
 
-			this.progressNode = createNode(
-				this.canvas,
-				this.parentNode,
-				{
-					text: progressText,
-					size: { height: 60 }
-				},
-				{
-					color: '3', // Yellow for progress
-					chat_role: 'system'
-				}
-			)
-		} catch (error) {
-			this.logDebug('Failed to create progress indicator:', error)
-		}
+	// Whether a hard limit blocks the provider, without asking to override it
+	const isOverBudget = (callSettings: InfoverseAICanvasSettings) => {
+		const now = Date.now()
+		return checkBudgets(usageLedger.records, settings.budgets, getProvider(callSettings).id, now)
+			.some(status => status.level === 'hard' && !isOverridden(status, now))
 	}
 
 	/**
-	 * Update progress indicator
+	 * Warn about soft budget limits, and ask before going over a hard one.
+	 * An override lasts until the budget's period resets.
 	 */
-	private updateProgress() {
-		if (!this.progressNode || !this.settings.showStreamingProgress) return
-
-		const elapsed = (Date.now() - this.startTime) / 1000
-		const charRate = elapsed > 0 ? Math.round(this.currentText.length / elapsed) : 0
-		const nodeCount = this.nodeMap.size
+	const checkBudget = async (callSettings: InfoverseAICanvasSettings) => {
+		const now = Date.now()
+		const statuses = checkBudgets(usageLedger.records, settings.budgets, getProvider(callSettings).id, now)
+		const blocking = statuses.filter(status => status.level === 'hard' && !isOverridden(status, now))
 
-		let progressText = this.enableLiveSplitting
-			? `📊 Header-Based Streaming: ${this.tokenCount} tokens | ${nodeCount} nodes | ${charRate} chars/sec`
-			: `📊 Streaming: ${this.tokenCount} tokens | ${this.currentText.length} chars | ${charRate} chars/sec`
+		statuses
+			.filter(status => !blocking.includes(status))
+			.forEach(status => new Notice(
+				`${status.level === 'hard' ? 'Over budget (overridden)' : 'Budget warning'}: ${describeBudgetStatus(status)}`
+			))
 
-		if (this.settings.enableStreamingMetrics) {
-			const errorRate = this.errorCount > 0 ? `| ${this.errorCount} errors` : ''
-			const retryInfo = this.retryCount > 0 ? `| ${this.retryCount} retries` : ''
-			progressText += ` ${errorRate} ${retryInfo}`
-		}
+		if (!blocking.length) return true
 
-		this.progressNode.setText(progressText)
-	}
-
-	/**
-	 * Parse headers from markdown text and return header information
-	 */
-	private parseHeaders(text: string): Array<{
-		level: number
-		text: string
-		startIndex: number
-		endIndex: number
-		fullLine: string
-	}> {
-		const headers: Array<{
-			level: number
-			text: string
-			startIndex: number
-			endIndex: number
-			fullLine: string
-		}> = []
-
-		const lines = text.split('\n')
-		let currentIndex = 0
-
-		for (let i = 0; i < lines.length; i++) {
-			const line = lines[i]
-			const headerMatch = line.match(/^(#{1,6})\s+(.+)$/)
-
-			if (headerMatch) {
-				const level = headerMatch[1].length
-				const headerText = headerMatch[2].trim()
-
-				headers.push({
-					level,
-					text: headerText,
-					startIndex: currentIndex,
-					endIndex: currentIndex + line.length,
-					fullLine: line
-				})
-			}
-
-			currentIndex += line.length + 1 // +1 for newline
+		const reasons = blocking.map(describeBudgetStatus)
+		if (!await new BudgetOverrideModal(app, reasons).ask()) {
+			new Notice(`AI request refused. ${reasons.join('. ')}`)
+			return false
 		}
 
-		return headers
+		blocking.forEach(status => {
+			settings.budgetOverrides[budgetKey(status.budget)] = periodStart(status.budget.period, now)
+		})
+		await saveSettings()
+		return true
 	}
 
-	/**
-	 * Check for new headers and split content accordingly
-	 */
-	private async tryHeaderBasedSplit() {
-		if (!this.enableLiveSplitting || this.currentText.length <= this.lastProcessedLength) {
-			return
-		}
-
-		const allHeaders = this.parseHeaders(this.currentText)
-
-		this.logDebug(`Checking for new headers. Total headers found: ${allHeaders.length}`)
-
-		// Find headers that are in the new content
-		const newHeaders = allHeaders.filter(header =>
-			header.startIndex >= this.lastProcessedLength
-		)
+	const nextNote = async () => {
+		logDebug('Creating user note')
 
-		if (newHeaders.length === 0) {
-			// No new headers, just update the current node
-			this.updateCurrentActiveNode()
+		const canvas = getActiveCanvas()
+		if (!canvas) {
+			logDebug('No active canvas')
 			return
 		}
 
-		this.logDebug(`Found ${newHeaders.length} new headers:`, newHeaders.map(h => `${h.level}: ${h.text}`))
-
-		// Process each new header
-		for (const header of newHeaders) {
-			await this.processNewHeader(header)
-		}
-
-		this.lastProcessedLength = this.currentText.length
-	}
-
-	/**
-	 * Process a new header by creating appropriate tree nodes
-	 */
-	private async processNewHeader(header: {
-		level: number
-		text: string
-		startIndex: number
-		endIndex: number
-		fullLine: string
-	}) {
-		// Determine allowed depth dynamically
-		if (this.firstHeaderLevel === null) {
-			this.firstHeaderLevel = header.level
-		}
-
-		const maxAllowedLevel = this.firstHeaderLevel + 1
-		if (header.level > maxAllowedLevel) {
-			return // ignore deeper headers
-		}
-
-		try {
-			// Decide parent based on dynamic flat hierarchy rules
-			let parentTreeNode: TreeNode | null
-			if (header.level === this.firstHeaderLevel) {
-				parentTreeNode = this.treeRoot
-			} else {
-				// header.level == firstHeaderLevel + 1
-				parentTreeNode = this.topLevelCurrent || this.treeRoot
-			}
-
-			if (!parentTreeNode) {
-				this.logDebug('No parent available for new header, skipping')
-				return
-			}
-
-			// Find content before header and update previous node
-			const contentBeforeHeader = this.currentText.slice(this.lastProcessedLength, header.startIndex).trim()
-
-			// ---------------------------------------------------------------------
-			// Root-note fix: if the very first header starts at index 0 we know that
-			// there is no real root-level content.  The original placeholder canvas
-			// node would otherwise keep showing "Calling AI…" (or similar) and later
-			// get filled with the complete text, effectively duplicating content.
-			//
-			// We therefore remove (or clear) the visual root node and demote the
-			// treeRoot so that it will never be selected by
-			// getCurrentActiveTreeNode() again.
-			// ---------------------------------------------------------------------
-			if (header.startIndex === 0 && this.treeRoot && this.nodeMap.size === 1) {
-				try {
-					if (this.treeRoot.canvasNode) {
-						// Remove only the visual element – the logical root stays for hierarchy
-						this.canvas.removeNode(this.treeRoot.canvasNode)
-						this.treeRoot.canvasNode = undefined
-					}
-					// Ensure root is not treated as the most recent node anymore
-					this.treeRoot.startIndex = -1
-					this.logDebug('Root placeholder removed after first header at index 0')
-				} catch (cleanupErr) {
-					this.logDebug('Failed to remove root placeholder', cleanupErr)
-				}
-			}
-
-			if (contentBeforeHeader.length > 0) {
-				this.updateCurrentActiveNode()
-			}
-
-			const newTreeNode: TreeNode = {
-				id: `node-${this.nodeCounter++}`,
-				content: '',
-				headerLevel: header.level,
-				headerText: header.text,
-				startIndex: header.startIndex,
-				endIndex: header.endIndex,
-				parentId: parentTreeNode.id,
-				children: []
-			}
-
-			// Attach to parent and update maps
-			parentTreeNode.children.push(newTreeNode)
-			await this.createCanvasNodeForTreeNode(newTreeNode, parentTreeNode)
-			this.nodeMap.set(newTreeNode.id, newTreeNode)
-
-			// Update top-level tracker
-			if (header.level === this.firstHeaderLevel) {
-				this.topLevelCurrent = newTreeNode
-			}
-
-			// After creating the node, apply radial layout on its parent to keep
-			// siblings evenly distributed during streaming.
-			this.applyRadialLayout(parentTreeNode)
-
-			this.logDebug(`Created tree node for header: "${header.text}" (level ${header.level})`)
-
-		} catch (error) {
-			this.logDebug('Error processing new header:', error)
-		}
-	}
-
-	/**
-	 * Find the appropriate parent node for a given header level
-	 */
-	private findParentForLevel(headerLevel: number): TreeNode | null {
-		if (!this.treeRoot || headerLevel <= 1) {
-			return this.treeRoot
-		}
-
-		// Find the most recent node at a higher level (lower number)
-		const nodes = Array.from(this.nodeMap.values())
-		const candidateParents = nodes.filter(node =>
-			node.headerLevel < headerLevel && node.headerLevel > 0
-		)
-
-		if (candidateParents.length === 0) {
-			return this.treeRoot
-		}
-
-		// Sort by start index to get the most recent parent
-		candidateParents.sort((a, b) => b.startIndex - a.startIndex)
-		return candidateParents[0]
-	}
-
-	/**
-	 * Create a canvas node for a tree node
-	 */
-	private async createCanvasNodeForTreeNode(treeNode: TreeNode, parentTreeNode: TreeNode | null) {
-		try {
-			// Determine color based on header level
-			const color = this.getNodeColorByLevel(treeNode.headerLevel)
-
-			// Calculate position in the tree layout
-			const position = this.calculateTreePosition(treeNode, parentTreeNode)
-
-			// Create initial content with just the header
-			const initialContent = treeNode.headerLevel > 0
-				? '#'.repeat(treeNode.headerLevel) + ' ' + treeNode.headerText
-				: treeNode.headerText
+		await canvas.requestFrame()
 
-			// Create canvas node
-			const canvasNode = createNode(
-				this.canvas,
-				parentTreeNode?.canvasNode || this.parentNode,
-				{
-					text: initialContent,
-					size: {
-						height: calcHeight({
-							text: initialContent,
-							parentHeight: this.parentNode.height
-						})
-					}
-				},
-				{
-					color: color,
-					chat_role: 'assistant'
-				}
-			)
+		const selection = canvas.selection
+		if (selection?.size !== 1) return
+		const values = Array.from(selection.values()) as CanvasNode[]
+		const node = values[0]
 
-			// Position the node
-			canvasNode.moveAndResize({
-				x: position.x,
-				y: position.y,
-				width: 400,
-				height: canvasNode.height
+		if (node) {
+			const created = createNode(canvas, node, {
+				text: '',
+				size: { height: emptyNoteHeight }
 			})
+			canvas.selectOnly(created, true /* startEditing */)
 
-			// Store reference in tree node
-			treeNode.canvasNode = canvasNode
-
-			// Create edge if hierarchy is enabled and there's a parent
-			if (this.settings.enableMarkdownHierarchy && parentTreeNode?.canvasNode) {
-				try {
-					const sides = this.getEdgeSides(parentTreeNode.canvasNode, canvasNode)
-						; (this.canvas as any).createEdge?.(parentTreeNode.canvasNode, canvasNode, sides)
-					this.logDebug('Created edge between nodes')
-				} catch (edgeError) {
-					this.logDebug('Edge creation failed', edgeError)
-				}
-			}
-
-			this.logDebug(`Created canvas node for "${treeNode.headerText}" at position (${position.x}, ${position.y})`)
+			// startEditing() doesn't work if called immediately
+			await canvas.requestSave()
+			await sleep(100)
 
-		} catch (error) {
-			this.logDebug('Failed to create canvas node for tree node:', error)
+			created.startEditing()
 		}
 	}
 
-	/**
-	 * Get node color based on header level
-	 */
-	private getNodeColorByLevel(level: number): string {
-		switch (level) {
-			case 0: return '2' // Orange for root content
-			case 1: return '1' // Red for H1
-			case 2: return '4' // Green for H2
-			case 3: return '5' // Purple for H3
-			case 4: return '6' // Pink for H4
-			case 5: return '3' // Yellow for H5
-			case 6: return assistantColor // Default purple for H6
-			default: return assistantColor
-		}
+	const getActiveCanvas = () => {
+		const maybeCanvasView = app.workspace.getActiveViewOfType(
+			ItemView
+		) as CanvasView | null
+		return maybeCanvasView ? maybeCanvasView['canvas'] : null
 	}
 
-	/**
-	 * Calculate position for a tree node in canvas space
-	 */
-	private calculateTreePosition(treeNode: TreeNode, parentTreeNode: TreeNode | null): { x: number, y: number } {
-		const baseX = this.parentNode.x
-		const baseY = this.parentNode.y + this.parentNode.height + 100
-
-		if (!parentTreeNode || !parentTreeNode.canvasNode) {
-			// Root level - arrange vertically
-			const siblingIndex = this.treeRoot?.children.indexOf(treeNode) || 0
-			return {
-				x: baseX,
-				y: baseY + (siblingIndex * 250)
-			}
-		}
-
-		// Child node - position relative to parent
-		const parentPos = {
-			x: parentTreeNode.canvasNode.x,
-			y: parentTreeNode.canvasNode.y
-		}
-
-		const siblings = parentTreeNode.children
-		const siblingIndex = siblings.indexOf(treeNode)
-
-		// Position children to the right of parent
-		const horizontalSpacing = this.settings.markdownHierarchySpacing || 450
-		const verticalSpacing = 200
-
-		return {
-			x: parentPos.x + horizontalSpacing,
-			y: parentPos.y + (siblingIndex * verticalSpacing)
-		}
-	}
+	const isSystemPromptNode = (text: string) =>
+		text.trim().startsWith('SYSTEM PROMPT')
 
 	/**
-	 * Update the currently active node (the last created node or root)
+	 * Content of a node, read once per generation
 	 */
-	private updateCurrentActiveNode() {
-		if (!this.enableLiveSplitting) {
-			// Single node mode
-			if (this.currentNode) {
-				const displayText = this.isCompleted ? this.currentText : `${this.currentText}●`
-				this.currentNode.setText(displayText)
-				this.resizeNode(this.currentNode, displayText)
-			}
-			return
-		}
-
-		// Tree mode - update the most recent node that should contain current content
-		const currentActiveNode = this.getCurrentActiveTreeNode()
-		if (!currentActiveNode?.canvasNode) {
-			return
-		}
-
-		// Get content for this node (from its start to current position or next header)
-		const nodeContent = this.getContentForTreeNode(currentActiveNode)
-		const displayText = this.isCompleted ? nodeContent : `${nodeContent}●`
-
-		currentActiveNode.canvasNode.setText(displayText)
-		this.resizeNode(currentActiveNode.canvasNode, displayText)
-
-		// Update the tree node's content and end index
-		currentActiveNode.content = nodeContent
-		currentActiveNode.endIndex = currentActiveNode.startIndex + nodeContent.length
+	const readContent = async (contents: NodeContents, node: CanvasNode) => {
+		if (!contents.has(node.id)) contents.set(node.id, await readNodeContent(node))
+		return contents.get(node.id)
 	}
 
 	/**
-	 * Get the current active tree node (where new content should be added)
+	 * Text of a text or markdown note; other nodes have none
 	 */
-	private getCurrentActiveTreeNode(): TreeNode | null {
-		if (!this.treeRoot) return null
-
-		// Consider only nodes that still have a visible canvas element
-		const allNodes = Array.from(this.nodeMap.values()).filter(n => n.canvasNode)
-		if (allNodes.length === 0) return this.treeRoot
-
-		allNodes.sort((a, b) => b.startIndex - a.startIndex)
-		return allNodes[0]
+	const readNoteText = async (contents: NodeContents, node: CanvasNode) => {
+		const content = await readContent(contents, node)
+		return content?.type === 'text' ? content.text : undefined
 	}
 
 	/**
-	 * Get content that belongs to a specific tree node
+	 * The nearest SYSTEM PROMPT note and its text, or the system prompt from
+	 * settings when there is none
 	 */
-	private getContentForTreeNode(treeNode: TreeNode): string {
-		if (!treeNode) return ''
-
-		const startIndex = treeNode.startIndex
-		let endIndex = this.currentText.length
-
-		// Find the next header at the same or higher level to determine where this content ends
-		const allHeaders = this.parseHeaders(this.currentText)
-		for (const header of allHeaders) {
-			if (header.startIndex <= startIndex) continue
-
-			// Special-case root: stop at the very first header of ANY level
-			if (treeNode.headerLevel === 0) {
-				endIndex = header.startIndex
-				break
-			}
+	const getSystemPrompt = async (nodes: CanvasNode[], contents: NodeContents) => {
+		let found = null as { text: string, node: CanvasNode } | null
 
-			// For non-root nodes end right before the *next* header that is either
-			//  • the same level (another sibling)
-			//  • or exactly one level deeper (its first child)
-			// This prevents the parent from including the child header text itself.
-			if (header.level <= treeNode.headerLevel + 1) {
-				endIndex = header.startIndex
-				break
+		await visitNodeAndAncestors(nodes, async (n: CanvasNode) => {
+			const text = await readNoteText(contents, n)
+			if (text && isSystemPromptNode(text)) {
+				found = { text, node: n }
+				return false
+			} else {
+				return true
 			}
-		}
-
-		return this.currentText.slice(startIndex, endIndex).trim()
-	}
-
-	/**
-	 * Resize a canvas node based on its content
-	 */
-	private resizeNode(canvasNode: CanvasNode, text: string) {
-		const newHeight = calcHeight({
-			text: text,
-			parentHeight: this.parentNode.height
-		})
-
-		canvasNode.moveAndResize({
-			height: newHeight,
-			width: canvasNode.width,
-			x: canvasNode.x,
-			y: canvasNode.y
 		})
-	}
 
-	/**
-	 * Pause streaming
-	 */
-	pause() {
-		if (this.settings.enableStreamingControls) {
-			this.isPaused = true
-			this.updateStreamingControls()
-			this.logDebug('Streaming paused')
-		}
+		return found || { text: settings.systemPrompt, node: undefined }
 	}
 
 	/**
-	 * Resume streaming
+	 * Settings for generating from nodes, with overrides from PARAMS
+	 * ancestor nodes applied
 	 */
-	resume() {
-		if (this.settings.enableStreamingControls) {
-			this.isPaused = false
-			this.updateStreamingControls()
-			this.logDebug('Streaming resumed')
-		}
-	}
+	const getGenerationSettings = async (nodes: CanvasNode[], contents: NodeContents) => {
+		const paramsList: NodeParams[] = []
 
-	/**
-	 * Handle incoming token from streaming API
-	 */
-	onToken = async (token: string) => {
-		if (this.isCompleted || this.isPaused) return
-
-		this.currentText += token
-		this.tokenCount++
-
-		// Debug every 10 tokens to avoid spam
-		if (this.tokenCount % 10 === 0) {
-			this.logDebug(`Token ${this.tokenCount}: currentText.length = ${this.currentText.length}`)
-		}
-
-		// Try header-based splitting if enabled
-		if (this.enableLiveSplitting) {
-			await this.tryHeaderBasedSplit()
-		}
-
-		// Update progress
-		this.updateProgress()
+		await visitNodeAndAncestors(nodes, async (n: CanvasNode) => {
+			const text = await readNoteText(contents, n)
+			if (text && isParamsNode(text)) {
+				try {
+					paramsList.push(parseNodeParams(parseYaml(paramsNodeBody(text))))
+				} catch (err) {
+					new Notice(`Ignoring PARAMS note with invalid YAML: ${err.message || err}`)
+				}
+			}
+			return true
+		})
 
-		// Throttled updates to prevent overwhelming the UI
-		const now = Date.now()
-		if (now - this.lastUpdateTime >= this.settings.streamingUpdateInterval && !this.pendingUpdate) {
-			this.pendingUpdate = true
-			this.scheduleUpdate()
+		if (paramsList.length) logDebug('PARAMS overrides', paramsList)
+		const callSettings = applyNodeParams(settings, paramsList)
+		// A PARAMS model without a provider goes to the provider listing it
+		if (callSettings.apiModel !== settings.apiModel && !paramsList.some(params => params.provider !== undefined)) {
+			callSettings.provider = getProviderForModel(callSettings, callSettings.apiModel).id
 		}
+		return callSettings
 	}
 
 	/**
-	 * Handle completion of streaming
+	 * Messages for the nodes and their ancestors within the input token
+	 * limit. Near the limit, where local estimates matter most, the provider
+	 * counts the tokens when it can and the messages are trimmed to fit.
+	 * `reserveTokens` are kept free for messages added afterwards.
 	 */
-	onComplete = (fullText: string) => {
-		this.isCompleted = true
-		this.currentText = fullText
-
-		// Schedule async operations without blocking the completion callback
-		this.scheduleAsyncCompletion()
-
-		// Final update to remove streaming indicator
-		this.updateCurrentActiveNode()
-		this.updateProgress()
-
-		// Clean up control nodes
-		if (this.controlNode) {
-			setTimeout(() => {
-				if (this.controlNode) {
-					this.canvas.removeNode(this.controlNode)
-					this.controlNode = null
+	const buildMessages = async (
+		nodes: CanvasNode[],
+		callSettings: InfoverseAICanvasSettings,
+		contents: NodeContents,
+		reserveTokens = 0
+	) => {
+		const inputLimit = getContextLimit(callSettings) - reserveTokens
+		let built = await collectMessages(nodes, callSettings, contents, inputLimit)
+
+		if (built.tokenCount >= inputLimit * exactCountThreshold) {
+			let budget = inputLimit
+			for (let attempt = 0; attempt < maxExactCountAttempts; attempt++) {
+				const exact = await countExactTokens(callSettings, built.messages)
+				if (exact === undefined) break
+
+				// Image tokens are not counted locally, so they would skew calibration
+				if (built.messages.every(message => typeof message.content === 'string')) {
+					getTokenizer(callSettings).calibrate?.(built.tokenCount, exact)
 				}
-			}, 1000) // Remove after 1 second
-		}
-
-		// Clean up progress indicator
-		if (this.progressNode) {
-			setTimeout(() => {
-				if (this.progressNode) {
-					this.canvas.removeNode(this.progressNode)
-					this.progressNode = null
+				if (exact <= inputLimit) {
+					built = { ...built, tokenCount: exact }
+					break
 				}
-			}, 2000) // Remove after 2 seconds
-		}
-
-		const nodeCount = this.enableLiveSplitting ? this.nodeMap.size : 1
-		this.logDebug(`Streaming completed with ${this.tokenCount} tokens across ${nodeCount} nodes`)
-	}
 
-	/**
-	 * Handle async operations after completion
-	 */
-	private async scheduleAsyncCompletion() {
-		try {
-			// Final processing for any remaining content
-			if (this.enableLiveSplitting) {
-				await this.tryHeaderBasedSplit()
-				this.updateCurrentActiveNode()
+				logDebug(`Provider counted ${exact} tokens, over the ${inputLimit} token limit; trimming`)
+				budget = Math.floor(budget * inputLimit / exact) - 1
+				built = await collectMessages(nodes, callSettings, contents, budget)
 			}
-		} catch (error) {
-			this.logDebug('Error in async completion:', error)
-		}
-	}
-
-	/**
-	 * Handle streaming errors with retry logic
-	 */
-	onError = (error: Error) => {
-		this.errorCount++
-		this.logDebug(`Streaming error (attempt ${this.retryCount + 1}):`, error)
-
-		// Auto-retry if enabled and within retry limit
-		if (this.retryCount < this.settings.streamingRetryAttempts) {
-			this.retryCount++
-			this.logDebug(`Retrying streaming (attempt ${this.retryCount}/${this.settings.streamingRetryAttempts})`)
-
-			// Update progress to show retry
-			this.updateProgress()
-
-			// Don't complete on retryable errors
-			return
-		}
-
-		// Final error after all retries
-		this.isCompleted = true
-
-		// Update the node to remove streaming indicator and show error
-		if (this.currentNode) {
-			this.currentNode.setText(`❌ Streaming failed after ${this.retryCount} retries: ${error.message}`)
 		}
 
-		// Update progress indicator
-		this.updateProgress()
-
-		// Clean up progress indicator
-		if (this.progressNode) {
-			this.progressNode.setText(`❌ Streaming failed: ${error.message}`)
-			setTimeout(() => {
-				if (this.progressNode) {
-					this.canvas.removeNode(this.progressNode)
-					this.progressNode = null
-				}
-			}, 5000)
-		}
-
-		console.error('Streaming error:', error)
+		return built.overflow.length ? addContextSummary(callSettings, built) : built
 	}
 
 	/**
-	 * Schedule a throttled update
+	 * Messages built for a note, with where they came from and the notes
+	 * that were left out
 	 */
-	private scheduleUpdate() {
-		setTimeout(() => {
-			this.updateCurrentActiveNode()
-			this.lastUpdateTime = Date.now()
-			this.pendingUpdate = false
-		}, Math.max(0, this.settings.streamingUpdateInterval - (Date.now() - this.lastUpdateTime)))
-	}
+	type BuiltMessages = Awaited<ReturnType<typeof collectMessages>>
 
 	/**
-	 * Create streaming control buttons if enabled
+	 * Input token limit for the notes themselves; with the summarize
+	 * strategy, room is kept for the summary of notes that do not fit
 	 */
-	private createStreamingControls() {
-		if (!this.settings.enableStreamingControls) return
-
-		try {
-			// Create control panel node
-			const controlText = this.isPaused ? '▶️ Resume | ⏹️ Stop' : '⏸️ Pause | ⏹️ Stop'
-
-			const controlNode = createNode(
-				this.canvas,
-				this.parentNode,
-				{
-					text: `🎛️ Streaming Controls\n${controlText}\n\nClick to interact`,
-					size: { height: 80 }
-				},
-				{
-					color: '4', // Green for controls
-					chat_role: 'system'
-				}
-			)
-
-			// Store reference for updates
-			this.controlNode = controlNode
-
-			// Note: In a real implementation, you'd need to add click handlers
-			// This is a simplified version showing the concept
-		} catch (error) {
-			this.logDebug('Failed to create streaming controls:', error)
-		}
+	const getContextLimit = (callSettings: InfoverseAICanvasSettings) => {
+		const tokenLimit = getTokenLimit(callSettings)
+		return callSettings.contextStrategy === 'summarize'
+			? tokenLimit - Math.min(maxSummaryTokens, Math.floor(tokenLimit / 4))
+			: tokenLimit
 	}
 
 	/**
-	 * Update streaming control buttons
+	 * Summary of the notes that did not fit, cached in the newest summarized
+	 * node, while the notes are unchanged
 	 */
-	private updateStreamingControls() {
-		if (!this.controlNode || !this.settings.enableStreamingControls) return
-
-		const controlText = this.isPaused ? '▶️ Resume | ⏹️ Stop' : '⏸️ Pause | ⏹️ Stop'
-		const statusText = this.isPaused ? '(Paused)' : '(Streaming...)'
-
-		this.controlNode.setText(`🎛️ Streaming Controls ${statusText}\n${controlText}\n\nClick to interact`)
+	const cachedContextSummary = (built: BuiltMessages) => {
+		const hash = hashNotes(built.overflow.map(({ role, text }) => ({ role, text })))
+		const cached = built.overflow[built.overflow.length - 1].node.getData().contextSummary as
+			ContextSummaryCache | undefined
+		return cached?.hash === hash ? cached.text : undefined
 	}
 
 	/**
-	 * Force completion if streaming gets stuck
+	 * Replace the notes that did not fit with a summary, reusing the cached
+	 * summary while the notes are unchanged
 	 */
-	forceCompletion(reason = 'Force completion'): void {
-		if (!this.isCompleted) {
-			console.warn(`StreamingHandler: ${reason}`)
-			this.onComplete(this.currentText || '')
+	const addContextSummary = async (
+		callSettings: InfoverseAICanvasSettings,
+		built: BuiltMessages
+	) => {
+		const notes = built.overflow.map(({ role, text }) => ({ role, text }))
+		const hash = hashNotes(notes)
+		const cacheNode = built.overflow[built.overflow.length - 1].node
+
+		let summary = cachedContextSummary(built)
+		if (summary) {
+			logDebug(`Reusing summary of ${notes.length} earlier notes`)
+		} else {
+			try {
+				summary = await summarizeNotes(cacheNode.canvas, callSettings, notes)
+			} catch (err) {
+				new Notice(`Could not summarize earlier notes, leaving them out: ${err.message || err}`)
+				return {
+					...built,
+					overflow: [],
+					excluded: built.excluded.concat(built.overflow.map(({ node }) => ({ node, reason: 'limit' as const })))
+				}
+			}
+			cacheNode.setData({ ...cacheNode.getData(), contextSummary: { hash, text: summary } })
+			await cacheNode.canvas.requestSave()
 		}
+
+		return withContextSummary(callSettings, built, summary)
 	}
 
 	/**
-	 * Stop streaming completely
+	 * The messages with the summary of the notes that did not fit
 	 */
-	stop() {
-		this.isCompleted = true
-		this.isPaused = false
-
-		// Update final state
-		this.updateCurrentActiveNode()
-		this.updateProgress()
-
-		// Clean up control nodes immediately
-		if (this.controlNode) {
-			this.canvas.removeNode(this.controlNode)
-			this.controlNode = null
-		}
+	const withContextSummary = (
+		callSettings: InfoverseAICanvasSettings,
+		built: BuiltMessages,
+		summary: string
+	) => {
+		const messages = built.messages.slice()
+		const sources = built.sources.slice()
+		const tokens = getTokenizer(callSettings).count(summary)
+		// The summary goes right after the system prompt
+		const index = messages[0]?.role === 'system' ? 1 : 0
+		messages.splice(index, 0, summaryMessage(summary))
+		sources.splice(index, 0, { label: `Summary of ${built.overflow.length} earlier notes`, tokens })
 
-		// Clean up progress indicator immediately
-		if (this.progressNode) {
-			this.canvas.removeNode(this.progressNode)
-			this.progressNode = null
+		return {
+			...built,
+			messages,
+			sources,
+			tokenCount: built.tokenCount + tokens
 		}
 	}
 
 	/**
-	 * Get the tree structure for debugging or external use
+	 * Summarize notes with the summary model, or the selected model when
+	 * none is set or it cannot be called
 	 */
-	getTreeStructure(): TreeNode | null {
-		return this.treeRoot
-	}
-
-	/**
-	 * Get a visualization of the current tree structure
-	 */
-	getTreeVisualization(): string {
-		if (!this.treeRoot) return 'No tree structure available'
-
-		const lines: string[] = []
-
-		const renderNode = (node: TreeNode, depth = 0) => {
-			const indent = '  '.repeat(depth)
-			const icon = node.headerLevel === 0 ? '🌳' :
-				node.headerLevel === 1 ? '📚' :
-					node.headerLevel === 2 ? '📖' : '📝'
-			const prefix = node.headerLevel > 0 ? '#'.repeat(node.headerLevel) + ' ' : ''
-			lines.push(`${indent}${icon} ${prefix}${node.headerText} (${node.content.length} chars)`)
-
-			node.children.forEach(child => {
-				renderNode(child, depth + 1)
-			})
-		}
-
-		renderNode(this.treeRoot)
-		return lines.join('\n')
-	}
-
-	private getEdgeSides(parent: CanvasNode, child: CanvasNode) {
-		// Get all existing edges to check for crossings
-		const existingEdges = this.getExistingEdges()
-
-		// Calculate connection points for all four sides of each node
-		const getConnectionPoints = (node: CanvasNode) => {
-			const centerX = node.x + node.width / 2
-			const centerY = node.y + node.height / 2
-
-			return {
-				top: { x: centerX, y: node.y },
-				bottom: { x: centerX, y: node.y + node.height },
-				left: { x: node.x, y: centerY },
-				right: { x: node.x + node.width, y: centerY }
+	const summarizeNotes = async (
+		canvas: Canvas,
+		callSettings: InfoverseAICanvasSettings,
+		notes: SummarizedNote[]
+	) => {
+		const maxTokens = getTokenLimit(callSettings) - getContextLimit(callSettings)
+		let summarySettings: InfoverseAICanvasSettings = { ...callSettings, maxResponseTokens: maxTokens }
+		if (settings.summaryModel) {
+			const candidate = {
+				...summarySettings,
+				apiModel: settings.summaryModel,
+				provider: getProviderForModel(settings, settings.summaryModel).id
 			}
+			if (!getProvider(candidate).validateApiKey(candidate)) summarySettings = candidate
 		}
 
-		// Check if two line segments intersect
-		const linesIntersect = (p1: { x: number, y: number }, p2: { x: number, y: number },
-			p3: { x: number, y: number }, p4: { x: number, y: number }): boolean => {
-			const denominator = (p4.y - p3.y) * (p2.x - p1.x) - (p4.x - p3.x) * (p2.y - p1.y)
-			if (denominator === 0) return false // parallel lines
-
-			const ua = ((p4.x - p3.x) * (p1.y - p3.y) - (p4.y - p3.y) * (p1.x - p3.x)) / denominator
-			const ub = ((p2.x - p1.x) * (p1.y - p3.y) - (p2.y - p1.y) * (p1.x - p3.x)) / denominator
-
-			return ua >= 0 && ua <= 1 && ub >= 0 && ub <= 1
+		// The summary counts against the budget of the provider writing it;
+		// when refused, the notes are left out as with truncation
+		if (!await canCallAI(summarySettings)) {
+			throw new Error(`${getProvider(summarySettings).id} request refused`)
 		}
 
-		// Check if a potential edge would cross any existing edges
-		const wouldCross = (fromPoint: { x: number, y: number }, toPoint: { x: number, y: number }): boolean => {
-			for (const edge of existingEdges) {
-				if (linesIntersect(fromPoint, toPoint, edge.from, edge.to)) {
-					return true
-				}
-			}
-			return false
-		}
-
-		// Calculate path cost considering distance and crossings
-		const calculatePathCost = (fromPoint: { x: number, y: number }, toPoint: { x: number, y: number }): number => {
-			const distance = Math.sqrt(
-				Math.pow(toPoint.x - fromPoint.x, 2) +
-				Math.pow(toPoint.y - fromPoint.y, 2)
-			)
-
-			// Heavy penalty for crossing existing edges
-			const crossingPenalty = wouldCross(fromPoint, toPoint) ? distance * 10 : 0
-
-			return distance + crossingPenalty
-		}
-
-		const fromPoints = getConnectionPoints(parent)
-		const toPoints = getConnectionPoints(child)
-
-		// Find the best connection that minimizes crossings and distance
-		let minCost = Infinity
-		let bestConnection = { fromSide: 'right', toSide: 'left' }
-
-		const sides = ['top', 'bottom', 'left', 'right'] as const
-
-		for (const fromSide of sides) {
-			for (const toSide of sides) {
-				const fromPoint = fromPoints[fromSide]
-				const toPoint = toPoints[toSide]
-
-				const cost = calculatePathCost(fromPoint, toPoint)
-
-				if (cost < minCost) {
-					minCost = cost
-					bestConnection = { fromSide, toSide }
-				}
-			}
-		}
-
-		return bestConnection
-	}
-
-	/**
-	 * Get existing edges from the canvas to check for crossings
-	 */
-	private getExistingEdges(): Array<{ from: { x: number, y: number }, to: { x: number, y: number } }> {
-		try {
-			const canvasData = (this.canvas as any).getData?.()
-			if (!canvasData?.edges) return []
-
-			const edges: Array<{ from: { x: number, y: number }, to: { x: number, y: number } }> = []
-
-			for (const edge of canvasData.edges) {
-				const fromNode = canvasData.nodes?.find((n: any) => n.id === edge.fromNode)
-				const toNode = canvasData.nodes?.find((n: any) => n.id === edge.toNode)
-
-				if (fromNode && toNode) {
-					// Calculate actual connection points based on edge sides
-					const fromPoint = this.getActualConnectionPoint(fromNode, edge.fromSide || 'right')
-					const toPoint = this.getActualConnectionPoint(toNode, edge.toSide || 'left')
-
-					edges.push({ from: fromPoint, to: toPoint })
-				}
-			}
+		logDebug(`Summarizing ${notes.length} earlier notes with ${summarySettings.apiModel}`)
+		let summary: string | undefined
+		let failure: Error | undefined
+		await callAIStreaming(summarySettings, buildSummaryRequest(notes, maxTokens), {
+			onToken: () => { },
+			onComplete: (text) => { summary = text },
+			onError: (error) => { failure = error },
+			onRequestUsage: (usage, modelSettings, estimated) =>
+				recordUsage(canvas, modelSettings, usage, estimated)
+		})
 
-			return edges
-		} catch (error) {
-			this.logDebug('Failed to get existing edges:', error)
-			return []
-		}
+		if (failure) throw failure
+		if (!summary?.trim()) throw new Error('The summary was empty')
+		return summary
 	}
 
 	/**
-	 * Get the actual connection point for a node and side
+	 * Count prompt tokens with the provider's API, or undefined when the
+	 * provider cannot count them
 	 */
-	private getActualConnectionPoint(nodeData: any, side: string): { x: number, y: number } {
-		const centerX = nodeData.x + nodeData.width / 2
-		const centerY = nodeData.y + nodeData.height / 2
-
-		switch (side) {
-			case 'top': return { x: centerX, y: nodeData.y }
-			case 'bottom': return { x: centerX, y: nodeData.y + nodeData.height }
-			case 'left': return { x: nodeData.x, y: centerY }
-			case 'right': return { x: nodeData.x + nodeData.width, y: centerY }
-			default: return { x: centerX, y: centerY }
-		}
-	}
-}
-
-export function noteGenerator(
-	app: App,
-	settings: InfoverseAICanvasSettings,
-	logDebug: Logger
-) {
-	// Store reference to the last streaming handler for debugging
-	let lastStreamingHandler: StreamingHandler | null = null
+	const countExactTokens = async (
+		callSettings: InfoverseAICanvasSettings,
+		messages: openai.ChatCompletionRequestMessage[]
+	) => {
+		const provider = getProvider(callSettings)
+		if (!provider.countTokens || !messages.length) return undefined
 
-	const canCallAI = () => {
-		const provider = getProviderFromModel(settings.apiModel)
-		const apiKey = provider === 'OpenAI' ? settings.openaiApiKey : settings.geminiApiKey
-
-		if (!apiKey) {
-			new Notice(`Please set your ${provider} API key in the plugin settings`)
-			return false
-		}
-
-		return true
-	}
-
-	const nextNote = async () => {
-		logDebug('Creating user note')
-
-		const canvas = getActiveCanvas()
-		if (!canvas) {
-			logDebug('No active canvas')
-			return
-		}
-
-		await canvas.requestFrame()
-
-		const selection = canvas.selection
-		if (selection?.size !== 1) return
-		const values = Array.from(selection.values()) as CanvasNode[]
-		const node = values[0]
-
-		if (node) {
-			const created = createNode(canvas, node, {
-				text: '',
-				size: { height: emptyNoteHeight }
-			})
-			canvas.selectOnly(created, true /* startEditing */)
-
-			// startEditing() doesn't work if called immediately
-			await canvas.requestSave()
-			await sleep(100)
-
-			created.startEditing()
+		try {
+			return await provider.countTokens({ settings: callSettings, model: callSettings.apiModel, messages })
+		} catch (err) {
+			logDebug('Token counting failed, using the local estimate', err)
+			return undefined
 		}
 	}
 
-	const getActiveCanvas = () => {
-		const maybeCanvasView = app.workspace.getActiveViewOfType(
-			ItemView
-		) as CanvasView | null
-		return maybeCanvasView ? maybeCanvasView['canvas'] : null
-	}
-
-	const isSystemPromptNode = (text: string) =>
-		text.trim().startsWith('SYSTEM PROMPT')
-
-	const getSystemPrompt = async (node: CanvasNode) => {
-		let foundPrompt: string | null = null
-
-		await visitNodeAndAncestors(node, async (n: CanvasNode) => {
-			const text = await readNodeContent(n)
-			if (text && isSystemPromptNode(text)) {
-				foundPrompt = text
-				return false
-			} else {
-				return true
-			}
-		})
-
-		return foundPrompt || settings.systemPrompt
-	}
-
-	const buildMessages = async (node: CanvasNode) => {
-		const encoding = getEncoding(settings)
+	const collectMessages = async (
+		nodes: CanvasNode[],
+		callSettings: InfoverseAICanvasSettings,
+		contents: NodeContents,
+		inputLimit: number
+	) => {
+		const tokenizer = getTokenizer(callSettings)
+		const model = getModelInfo(callSettings)
+		const vision = model?.vision ?? getProvider(callSettings).capabilities.vision
 
 		const messages: openai.ChatCompletionRequestMessage[] = []
+		// Where each message came from, in the same order
+		const sources: MessageSource[] = []
 		let tokenCount = 0
+		const seen = new Set<string>()
+		const excluded: ExcludedNode[] = []
+
+		// Notes beyond the limit, oldest first, when they are to be summarized
+		const summarize = callSettings.contextStrategy === 'summarize'
+		const overflow: Array<SummarizedNote & { node: CanvasNode }> = []
 
 		// Note: We are not checking for system prompt longer than context window.
 		// That scenario makes no sense, though.
-		const systemPrompt = await getSystemPrompt(node)
-		if (systemPrompt) {
-			tokenCount += encoding.encode(systemPrompt).length
-		}
+		const { text: systemPrompt, node: systemPromptNode } = await getSystemPrompt(nodes, contents)
+		const systemPromptTokens = systemPrompt ? tokenizer.count(systemPrompt) : 0
+		tokenCount += systemPromptTokens
+
+		const links = callSettings.resolveLinks
+			? { maxDepth: callSettings.linkDepth, maxTokens: callSettings.maxLinkTokens, tokenizer }
+			: undefined
 
 		const visit = async (node: CanvasNode, depth: number) => {
-			if (settings.maxDepth && depth > settings.maxDepth) return false
+			if (callSettings.maxDepth && depth > callSettings.maxDepth) return false
+			seen.add(node.id)
 
 			const nodeData = node.getData()
-			let nodeText = (await readNodeContent(node))?.trim() || ''
-			const inputLimit = getTokenLimit(settings)
+			// Link budgets are counted with this model's tokenizer, so text notes
+			// resolve their links here; file nodes come from the shared contents
+			const content = links && nodeData.type === 'text'
+				? await readNodeContent(node, links)
+				: await readContent(contents, node)
+			let nodeText = content ? nodeContentText(content).trim() : ''
 
 			let shouldContinue = true
-			if (!nodeText) {
+			if (!content || !nodeText) {
 				return shouldContinue
 			}
 
-			if (nodeText.startsWith('data:image')) {
+			if (overflow.length) {
+				// Everything above the first note that did not fit is summarized
+				if (content.type !== 'image' && !isSystemPromptNode(nodeText) && !isParamsNode(nodeText)) {
+					const role = nodeData.chat_role === 'assistant' ? 'assistant' : 'user'
+					overflow.unshift({ node, role, text: nodeText })
+				}
+				return true
+			}
+
+			if (content.type === 'image') {
+				if (!vision) {
+					logDebug(`Skipping image, ${callSettings.apiModel} does not accept images`)
+					excluded.push({ node, reason: 'image' })
+					return shouldContinue
+				}
 				messages.unshift({
-					content: [{
-						'type': 'image_url',
-						'image_url': { 'url': nodeText }
-					}],
+					content: nodeMessageContent(content),
 					role: 'user'
 				})
+				sources.unshift({ node, label: nodeContentLabel(content), tokens: 0 })
 			} else {
-				if (isSystemPromptNode(nodeText)) return true
+				if (isSystemPromptNode(nodeText) || isParamsNode(nodeText)) return true
 
-				const nodeTokens = encoding.encode(nodeText)
+				const nodeTokens = tokenizer.count(nodeText)
 				let keptNodeTokens: number
 
-				if (tokenCount + nodeTokens.length > inputLimit) {
+				if (summarize && messages.length && tokenCount + nodeTokens > inputLimit) {
+					overflow.unshift({
+						node,
+						role: nodeData.chat_role === 'assistant' ? 'assistant' : 'user',
+						text: nodeText
+					})
+					return true
+				}
+
+				if (tokenCount + nodeTokens > inputLimit) {
 					// will exceed input limit
 
 					shouldContinue = false
 
 					// Leaving one token margin, just in case
-					const keepTokens = nodeTokens.slice(0, inputLimit - tokenCount - 1)
-					const truncateTextTo = encoding.decode(keepTokens).length
+					const keepTokens = Math.max(0, inputLimit - tokenCount - 1)
+					const truncatedText = tokenizer.truncate(nodeText, keepTokens)
 					logDebug(
-						`Truncating node text from ${nodeText.length} to ${truncateTextTo} characters`
+						`Truncating node text from ${nodeText.length} to ${truncatedText.length} characters`
 					)
-					nodeText = nodeText.slice(0, truncateTextTo)
-					keptNodeTokens = keepTokens.length
+					nodeText = truncatedText
+					keptNodeTokens = keepTokens
 				} else {
-					keptNodeTokens = nodeTokens.length
+					keptNodeTokens = nodeTokens
 				}
 
 				tokenCount += keptNodeTokens
@@ -1254,83 +605,179 @@ export function noteGenerator(
 					content: nodeText,
 					role
 				})
+				sources.unshift({
+					node,
+					label: role === 'assistant' ? 'AI note' : nodeContentLabel(content),
+					tokens: keptNodeTokens,
+					truncated: keptNodeTokens < nodeTokens
+				})
 			}
 
 			return shouldContinue
 		}
 
-		await visitNodeAndAncestors(node, visit)
+		await visitNodeAndAncestors(nodes, visit)
+
+		// Ancestors the traversal stopped before
+		await visitNodeAndAncestors(nodes, async (ancestor: HasId, depth: number) => {
+			if (!seen.has(ancestor.id)) {
+				const reason = callSettings.maxDepth && depth > callSettings.maxDepth ? 'depth' : 'limit'
+				excluded.push({ node: ancestor as CanvasNode, reason })
+			}
+			return true
+		})
 
 		if (messages.length) {
+			// Groups around the included notes add their label, outermost
+			// first, unless they were reached as ancestors already
+			const canvasNodes = nodes[0].canvas?.getData().nodes || []
+			const groups = new Map<string, CanvasGroupData>()
+			sources.forEach(({ node }) => {
+				if (node) containingGroups(node, canvasNodes).forEach(group => groups.set(group.id, group))
+			})
+			sortCanvasNodes(Array.from(groups.values()))
+				.filter(group => !seen.has(group.id))
+				.map(group => group.label?.trim() || '')
+				.filter(label => label)
+				.reverse()
+				.forEach(label => {
+					const content: NodeContent = { type: 'group', label }
+					const text = nodeContentText(content)
+					const tokens = tokenizer.count(text)
+					if (tokenCount + tokens > inputLimit) return
+					tokenCount += tokens
+					messages.unshift({ content: text, role: 'user' })
+					sources.unshift({ label: nodeContentLabel(content), tokens })
+				})
+
 			if (systemPrompt) {
 				messages.unshift({
 					content: systemPrompt,
 					role: 'system'
 				})
+				sources.unshift({
+					node: systemPromptNode,
+					label: systemPromptNode ? 'SYSTEM PROMPT note' : 'System prompt from settings',
+					tokens: systemPromptTokens
+				})
 			}
 
-			return { messages, tokenCount }
+			return { messages, sources, tokenCount, overflow, excluded }
 		} else {
-			return { messages: [], tokenCount: 0 }
+			return { messages: [], sources: [], tokenCount: 0, overflow: [], excluded }
 		}
 	}
 
-	// Streaming API call function
-	const callAIStreaming = async (
+	// Tokenizer of the selected model
+	const getTokenizer = (callSettings: InfoverseAICanvasSettings) =>
+		getModelTokenizer(callSettings, callSettings.apiModel, callSettings.provider)
+
+	/**
+	 * Add a request to the usage ledger, costed at the current model prices
+	 */
+	const recordUsage = (
+		canvas: Canvas,
+		modelSettings: InfoverseAICanvasSettings,
+		usage: TokenUsage,
+		estimated: boolean
+	) => {
+		usageLedger.add({
+			time: Date.now(),
+			provider: getProvider(modelSettings).id,
+			model: modelSettings.apiModel,
+			canvas: canvas.view?.file?.path || '',
+			promptTokens: usage.promptTokens,
+			completionTokens: usage.completionTokens,
+			cost: calculateCost(getModelPrice(modelSettings.apiModel, settings.modelPrices), usage),
+			...(estimated ? { estimated } : {})
+		})
+	}
+
+	/**
+	 * Stream a response into a StreamingHandler, tracking it as active so
+	 * it can be stopped until the request finishes
+	 */
+	const streamToHandler = async (
+		canvas: Canvas,
+		callSettings: InfoverseAICanvasSettings,
 		messages: openai.ChatCompletionRequestMessage[],
-		onToken: (token: string) => void,
-		onComplete: (fullText: string) => void,
-		onError: (error: Error) => void
-	): Promise<void> => {
-		const provider = getProviderFromModel(settings.apiModel)
-		const apiKey = provider === 'OpenAI' ? settings.openaiApiKey : settings.geminiApiKey
-
-		if (provider === 'Gemini') {
-			return await getGeminiStreamingCompletion(
-				apiKey,
-				settings.apiModel,
-				messages.map(msg => ({
-					role: msg.role,
-					content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content)
-				})),
-				onToken,
-				onComplete,
-				onError,
-				{
-					temperature: settings.temperature,
-					maxOutputTokens: settings.maxResponseTokens || undefined
-				}
-			)
-		} else {
-			// Default to OpenAI with timeout support
-			return await getChatGPTStreamingCompletion(
-				apiKey,
-				settings.apiUrl,
-				settings.apiModel,
+		streamingHandler: StreamingHandler,
+		onUsage?: (usage: TokenUsage) => void
+	) => {
+		activeHandlers.add(streamingHandler)
+		try {
+			await callAIStreaming(
+				callSettings,
 				messages,
-				onToken,
-				onComplete,
-				onError,
 				{
-					max_tokens: settings.maxResponseTokens || undefined,
-					temperature: settings.temperature
+					onToken: streamingHandler.onToken,
+					onComplete: streamingHandler.onComplete,
+					onError: streamingHandler.onError,
+					onRetry: streamingHandler.onRetry,
+					onModel: (modelSettings, error) =>
+						streamingHandler.setModel(modelSettings.apiModel, getProvider(modelSettings).id, error),
+					onQueue: (position) => streamingHandler.setQueuePosition(position),
+					onRequestUsage: (usage, modelSettings, estimated) => {
+						recordUsage(canvas, modelSettings, usage, estimated)
+						onUsage?.(usage)
+					}
 				},
-				settings.streamingTimeout || 30000 // Use timeout from settings
+				streamingHandler.abortController.signal
 			)
+		} finally {
+			activeHandlers.delete(streamingHandler)
 		}
 	}
 
-	// Helper function to determine provider from model name
-	const getProviderFromModel = (modelName: string): string => {
-		const isGeminiModel = Object.values(GEMINI_MODELS).some(model => model.name === modelName)
-		return isGeminiModel ? 'Gemini' : 'OpenAI'
+	/**
+	 * Whether a node belongs to a response that is still streaming
+	 */
+	const isGenerating = (node: CanvasNode) =>
+		Array.from(activeHandlers).some(handler => handler.isActive() && handler.ownsNode(node))
+
+	/**
+	 * Stop the generation streaming into the given node, or every active
+	 * generation when no node is given. Returns the number of generations stopped.
+	 */
+	const stopGeneration = (node?: CanvasNode) => {
+		const toStop = Array.from(activeHandlers).filter(handler =>
+			handler.isActive() && (!node || handler.ownsNode(node))
+		)
+
+		toStop.forEach(handler => handler.stop())
+		return toStop.length
 	}
 
-	const generateNote = async () => {
-		if (!canCallAI()) {
-			return
+	// Provider serving the selected model
+	const getProvider = (callSettings: InfoverseAICanvasSettings) =>
+		getProviderForModel(callSettings, callSettings.apiModel, callSettings.provider)
+
+	// Catalog entry of the selected model
+	const getModelInfo = (callSettings: InfoverseAICanvasSettings) =>
+		getCatalogModel(callSettings, callSettings.apiModel, callSettings.provider)
+
+	// Response token limit from settings, capped at what the model can generate
+	const getMaxResponseTokens = (callSettings: InfoverseAICanvasSettings) => {
+		const maxOutputTokens = getModelInfo(callSettings)?.maxOutputTokens
+		if (callSettings.maxResponseTokens && maxOutputTokens) {
+			return Math.min(callSettings.maxResponseTokens, maxOutputTokens)
 		}
+		return callSettings.maxResponseTokens || undefined
+	}
+
+	const { callAIStreaming } = streamingCaller({
+		scheduler,
+		getProvider,
+		getProviderForModel,
+		getTokenizer,
+		getModelInfo,
+		getMaxResponseTokens,
+		isOverBudget,
+		logDebug,
+		sleep
+	})
 
+	const generateNote = async () => {
 		logDebug('Creating AI note')
 
 
@@ -1343,123 +790,571 @@ export function noteGenerator(
 
 		await canvas.requestFrame()
 
-		const selection = canvas.selection
-		if (selection?.size !== 1) {
-			return // TODO: handle multiple nodes
-		}
-
-		const values = Array.from(selection.values())
-		const node = values[0]
+		// With several notes selected, one response answers all of them
+		const nodes = getSelectedNodes(canvas)
 
-		if (node) {
+		if (nodes.length) {
 			// Last typed characters might not be applied to note yet
 			await canvas.requestSave()
 			await sleep(200)
 
-			const { messages, tokenCount } = await buildMessages(node)
+			const contents: NodeContents = new Map()
+			const callSettings = await getGenerationSettings(nodes, contents)
+			if (!await canCallAI(callSettings)) {
+				return
+			}
 
-			if (!messages.length) {
+			const built = await buildMessages(nodes, callSettings, contents)
+
+			if (!built.messages.length) {
 				return
 			}
 
-			const created = createNode(
-				canvas,
-				node,
-				{
-					text: `Calling AI (${settings.apiModel})...`,
-					size: { height: placeholderNoteHeight }
-				},
-				{
-					color: assistantColor,
-					chat_role: 'assistant'
-				}
-			)
+			await generateResponse(canvas, nodes, callSettings, built)
+		}
+	}
+
+	/**
+	 * Selected notes in traversal order, without edges
+	 */
+	const getSelectedNodes = (canvas: Canvas) =>
+		sortSelectedNodes(Array.from(canvas.selection || []).filter(item => item.nodeEl))
+
+	/**
+	 * Show the messages that generating from the selected notes would send,
+	 * and generate from them if the user chooses Send. The preview is built
+	 * locally: notes that need a new summary are listed as to be summarized,
+	 * and the provider's exact token count is left to Send, which checks the
+	 * API key and budget before making any request.
+	 */
+	const previewContext = async () => {
+		const canvas = getActiveCanvas()
+		if (!canvas) {
+			logDebug('No active canvas')
+			return
+		}
+
+		await canvas.requestFrame()
+
+		const nodes = getSelectedNodes(canvas)
+		if (!nodes.length) {
+			new Notice('Select a note to preview its AI context.')
+			return
+		}
+
+		// Last typed characters might not be applied to note yet
+		await canvas.requestSave()
+		await sleep(200)
+
+		const contents: NodeContents = new Map()
+		const callSettings = await getGenerationSettings(nodes, contents)
+		const inputLimit = getContextLimit(callSettings)
+		const collected = await collectMessages(nodes, callSettings, contents, inputLimit)
+		const summary = collected.overflow.length ? cachedContextSummary(collected) : undefined
+		const built = summary ? withContextSummary(callSettings, collected, summary) : collected
+		const { messages, sources, tokenCount } = built
+		const excluded = summary
+			? built.excluded
+			: built.excluded.concat(built.overflow.map(({ node }) => ({ node, reason: 'summarize' as const })))
+
+		// Whether Send would count the tokens with the provider or summarize
+		const isFinal = !collected.overflow.length && collected.tokenCount < inputLimit * exactCountThreshold
+
+		new ContextPreviewModal(
+			app,
+			{
+				model: callSettings.apiModel,
+				messages,
+				sources,
+				tokenCount,
+				tokenLimit: getTokenLimit(callSettings),
+				excluded
+			},
+			async () => {
+				if (!messages.length || !await canCallAI(callSettings)) return
+				await generateResponse(
+					canvas,
+					nodes,
+					callSettings,
+					isFinal ? built : await buildMessages(nodes, callSettings, contents)
+				)
+			}
+		).open()
+	}
 
+	/**
+	 * Stream a single response to the built messages into a new note next
+	 * to the first node, connected to every node, outlining the notes of the
+	 * context until it is done. Resolves to whether the response succeeded.
+	 *
+	 * @param options.quiet show only errors as notices
+	 * @param options.target placeholder from createResponseNode to stream into
+	 * @param options.onStats called with the timing and usage of a successful response
+	 * @param options.keepTarget keep the target note when the request throws
+	 */
+	const generateResponse = async (
+		canvas: Canvas,
+		nodes: CanvasNode[],
+		callSettings: InfoverseAICanvasSettings,
+		built: BuiltMessages,
+		options: {
+			quiet?: boolean,
+			target?: CanvasNode,
+			onStats?: (stats: ResponseStats) => void,
+			keepTarget?: boolean
+		} = {}
+	) => {
+		const { quiet } = options
+		const [node] = nodes
+		const { messages, tokenCount } = built
+		const clearHighlights = highlightContextNodes(contextHighlights(
+			built.sources,
+			built.excluded,
+			built.overflow.map(({ node }) => node)
+		))
+
+		const created = options.target || createResponseNode(canvas, nodes, callSettings)
+
+		if (!quiet) {
 			new Notice(
 				`Sending ${messages.length} notes with ${tokenCount} tokens to AI`
 			)
+		}
 
-			try {
-				logDebug('messages', messages)
-
-				// For the "Generate single AI response" action we force-disable
-				// markdown splitting so that the reply stays in one note even if
-				// the user has global splitting turned on in plugin settings.
-				const singleResponseSettings = {
-					...settings,
-					enableMarkdownSplitting: false,
-					enableStreamingSplit: false
-				} as typeof settings
-
-				const streamingHandler = new StreamingHandler(
-					canvas,
-					node,
-					created,
-					singleResponseSettings,
-					logDebug
-				)
+		let failed = false
+		try {
+			logDebug('messages', messages)
+
+			// For the "Generate single AI response" action we force-disable
+			// markdown splitting so that the reply stays in one note even if
+			// the user has global splitting turned on in plugin settings.
+			const singleResponseSettings = {
+				...callSettings,
+				enableMarkdownSplitting: false,
+				enableStreamingSplit: false
+			} as typeof settings
+
+			const streamingHandler = new StreamingHandler(
+				canvas,
+				node,
+				created,
+				singleResponseSettings,
+				logDebug
+			)
 
-				// Store reference for debugging
-				lastStreamingHandler = streamingHandler
+			// Store reference for debugging
+			lastStreamingHandler = streamingHandler
 
-				new Notice(`Streaming ${settings.apiModel} response...`)
+			if (!quiet) new Notice(`Streaming ${callSettings.apiModel} response...`)
 
-				// Add timeout fallback to ensure completion is always called
-				let isStreamingCompleted = false
-				const maxStreamingTimeout = (settings.streamingTimeout || 30000) + 10000 // Add 10s buffer
+			// Watchdog for stalled streams: restarted by every token, it stops the
+			// request (freeing its queue slot and recording its usage) and keeps
+			// the partial text, marked as truncated
+			let isStreamingCompleted = false
+			const maxStreamingTimeout = (callSettings.streamingTimeout || 30000) + 10000 // Add 10s buffer
 
-				const timeoutId = setTimeout(() => {
-					if (!isStreamingCompleted) {
-						console.warn('Streaming timeout reached, forcing completion')
-						streamingHandler.onComplete(streamingHandler.getCurrentText() || 'Streaming timed out')
-						isStreamingCompleted = true
-					}
-				}, maxStreamingTimeout)
-
-				// Wrap the onComplete callback to ensure cleanup
-				const originalOnComplete = streamingHandler.onComplete
-				streamingHandler.onComplete = (fullText: string) => {
-					if (!isStreamingCompleted) {
-						isStreamingCompleted = true
-						clearTimeout(timeoutId)
-						originalOnComplete(fullText)
-					}
+			const startWatchdog = () => setTimeout(() => {
+				if (!isStreamingCompleted) {
+					console.warn('Streaming stalled, stopping the request')
+					isStreamingCompleted = true
+					streamingHandler.stop(stalledMarker)
 				}
+			}, maxStreamingTimeout)
+			let timeoutId = startWatchdog()
+
+			// Each retry gets the full timeout again, starting after its backoff delay
+			const originalOnRetry = streamingHandler.onRetry
+			streamingHandler.onRetry = (attempt: number, delayMs: number, error: Error) => {
+				clearTimeout(timeoutId)
+				originalOnRetry(attempt, delayMs, error)
+				setTimeout(() => {
+					if (!isStreamingCompleted) timeoutId = startWatchdog()
+				}, delayMs)
+			}
 
-				// Wrap the onError callback to ensure cleanup
-				const originalOnError = streamingHandler.onError
-				streamingHandler.onError = (error: Error) => {
-					if (!isStreamingCompleted) {
-						isStreamingCompleted = true
-						clearTimeout(timeoutId)
-						originalOnError(error)
-					}
+			// Time spent waiting in the request queue does not count
+			let startedAt = Date.now()
+			const originalSetQueuePosition = streamingHandler.setQueuePosition.bind(streamingHandler)
+			streamingHandler.setQueuePosition = (position: number) => {
+				clearTimeout(timeoutId)
+				if (position === 0) {
+					timeoutId = startWatchdog()
+					startedAt = Date.now()
 				}
+				originalSetQueuePosition(position)
+			}
 
-				await callAIStreaming(
-					messages,
-					streamingHandler.onToken,
-					streamingHandler.onComplete,
-					streamingHandler.onError
-				)
+			// Latency of the attempt that produced the response
+			let firstTokenAt: number | undefined
+			const originalOnToken = streamingHandler.onToken
+			streamingHandler.onToken = (token: string) => {
+				firstTokenAt = firstTokenAt ?? Date.now()
+				// The stream is alive, so the watchdog starts over
+				if (!isStreamingCompleted) {
+					clearTimeout(timeoutId)
+					timeoutId = startWatchdog()
+				}
+				return originalOnToken(token)
+			}
+			const retryingOnRetry = streamingHandler.onRetry
+			streamingHandler.onRetry = (attempt: number, delayMs: number, error: Error) => {
+				firstTokenAt = undefined
+				retryingOnRetry(attempt, delayMs, error)
+			}
 
-				// StreamingHandler manages the final state, so we can return here
-				await canvas.requestSave()
-				return
+			// So does each fallback model
+			const originalSetModel = streamingHandler.setModel.bind(streamingHandler)
+			streamingHandler.setModel = (model: string, provider: string, error?: Error) => {
+				if (error) {
+					clearTimeout(timeoutId)
+					timeoutId = startWatchdog()
+				}
+				originalSetModel(model, provider, error)
+			}
+
+			// Wrap the onComplete callback to ensure cleanup
+			const originalOnComplete = streamingHandler.onComplete
+			streamingHandler.onComplete = (fullText: string) => {
+				if (!isStreamingCompleted) {
+					isStreamingCompleted = true
+					clearTimeout(timeoutId)
+					originalOnComplete(fullText)
+				}
+			}
+
+			// Wrap the onError callback to ensure cleanup
+			const originalOnError = streamingHandler.onError
+			streamingHandler.onError = (error: Error) => {
+				if (!isStreamingCompleted) {
+					isStreamingCompleted = true
+					failed = true
+					clearTimeout(timeoutId)
+					originalOnError(error)
+				}
+			}
 
-				// Note: Removed fallback to non-streaming mode since streaming is now always enabled
-			} catch (error) {
-				new Notice(`Error calling AI: ${error.message || error}`)
-				canvas.removeNode(created)
+			let usage: TokenUsage | undefined
+			await streamToHandler(canvas, callSettings, messages, streamingHandler, (reported) => { usage = reported })
+
+			// The request has finished, completed or not, so the watchdog is no longer needed
+			isStreamingCompleted = true
+			clearTimeout(timeoutId)
+
+			if (!failed) {
+				options.onStats?.({
+					firstTokenMs: firstTokenAt !== undefined ? firstTokenAt - startedAt : undefined,
+					totalMs: Date.now() - startedAt,
+					usage
+				})
 			}
 
+			// StreamingHandler manages the final state, so we can return here
 			await canvas.requestSave()
+			return !failed
+
+			// Note: Removed fallback to non-streaming mode since streaming is now always enabled
+		} catch (error) {
+			new Notice(`Error calling AI: ${error.message || error}`)
+			if (!options.keepTarget) canvas.removeNode(created)
+		} finally {
+			clearHighlights()
 		}
+
+		await canvas.requestSave()
+		return false
 	}
 
-	const generateMindmap = async () => {
-		if (!canCallAI()) return
+	/**
+	 * Generate several responses to the same context from the selected notes,
+	 * side by side below the first one, to compare and prune
+	 */
+	const generateVariations = async () => {
+		const canvas = getActiveCanvas()
+		if (!canvas) {
+			logDebug('No active canvas')
+			return
+		}
+
+		await canvas.requestFrame()
+
+		const nodes = getSelectedNodes(canvas)
+		if (!nodes.length) return
+
+		// Last typed characters might not be applied to note yet
+		await canvas.requestSave()
+		await sleep(200)
+
+		const contents: NodeContents = new Map()
+		const callSettings = await getGenerationSettings(nodes, contents)
+		if (!await canCallAI(callSettings)) return
+
+		const built = await buildMessages(nodes, callSettings, contents)
+		if (!built.messages.length) return
+
+		const count = Math.min(maxVariations, Math.max(minVariations, settings.variationCount))
+		const targets: CanvasNode[] = []
+		for (let i = 0; i < count; i++) {
+			const placement: NodePlacement = i ? { after: targets[i - 1] } : { direction: 'bottom' }
+			targets.push(createResponseNode(canvas, nodes, callSettings, placement))
+		}
+
+		new Notice(
+			`Generating ${count} variations from ${built.messages.length} notes with ${built.tokenCount} tokens`
+		)
+
+		await Promise.all(targets.map(target =>
+			generateResponse(canvas, nodes, callSettings, built, { quiet: true, target })
+		))
+	}
+
+	/**
+	 * Send the context of the selected notes to each comparison model at
+	 * once. Responses are placed side by side, colored by provider, and
+	 * their edges are labelled with the model, latency and token counts.
+	 */
+	const compareModels = async () => {
+		const canvas = getActiveCanvas()
+		if (!canvas) {
+			logDebug('No active canvas')
+			return
+		}
+
+		await canvas.requestFrame()
+
+		const nodes = getSelectedNodes(canvas)
+		if (!nodes.length) return
+
+		const models = settings.comparisonModels.filter((model, i, all) => all.indexOf(model) === i)
+		if (models.length < 2) {
+			new Notice('Add at least two comparison models in the settings to compare models.')
+			return
+		}
+
+		// Last typed characters might not be applied to note yet
+		await canvas.requestSave()
+		await sleep(200)
+
+		const contents: NodeContents = new Map()
+		const baseSettings = await getGenerationSettings(nodes, contents)
+		const responses: { modelSettings: InfoverseAICanvasSettings, built: BuiltMessages, target: CanvasNode }[] = []
+		const canCall = createCallGate()
+		for (const model of models) {
+			const provider = getProviderForModel(baseSettings, model)
+			// Each model answers on its own, without falling back to another
+			const modelSettings = { ...baseSettings, apiModel: model, provider: provider.id, fallbackModels: [] }
+			if (!await canCall(modelSettings)) continue
+
+			// Context limits and tokenizers differ between models
+			const built = await buildMessages(nodes, modelSettings, contents)
+			if (!built.messages.length) continue
+
+			const previous = responses[responses.length - 1]
+			const placement: NodePlacement = previous ? { after: previous.target } : { direction: 'bottom' }
+			const target = createResponseNode(
+				canvas, nodes, modelSettings, placement, providerColors[provider.id] || assistantColor
+			)
+			labelEdgesTo(canvas, target, model)
+			responses.push({ modelSettings, built, target })
+		}
+
+		if (!responses.length) return
+		new Notice(`Comparing ${responses.length} models`)
+
+		await Promise.all(responses.map(({ modelSettings, built, target }) =>
+			generateResponse(canvas, nodes, modelSettings, built, {
+				quiet: true,
+				target,
+				onStats: (stats) =>
+					labelEdgesTo(canvas, target, `${modelSettings.apiModel} · ${describeResponseStats(stats)}`)
+			})
+		))
+		await canvas.requestSave()
+	}
+
+	/**
+	 * Generate an assistant note again from its parents, streaming into the
+	 * same note so its edges and position are kept. The previous text stays
+	 * available as a version of the note.
+	 */
+	const regenerateNote = async (node: CanvasNode) => {
+		const canvas = node.canvas
+		if (node.getData().chat_role !== 'assistant') {
+			new Notice('Only AI notes can be regenerated.')
+			return
+		}
+		if (isGenerating(node)) return
+
+		const parents = sortSelectedNodes(nodeParents(node))
+		if (!parents.length) {
+			new Notice('This AI note has no parent notes to regenerate it from.')
+			return
+		}
+
+		// Last typed characters might not be applied to note yet
+		await canvas.requestSave()
+		await sleep(200)
+
+		const contents: NodeContents = new Map()
+		const callSettings = await getGenerationSettings(parents, contents)
+		if (!await canCallAI(callSettings)) return
+
+		const built = await buildMessages(parents, callSettings, contents)
+		if (!built.messages.length) return
+
+		const previous = updateCurrentVersion(readVersions(node.getData(), node.text), node.text)
+		node.setText(`Calling AI (${callSettings.apiModel})...`)
+
+		const succeeded = await generateResponse(canvas, parents, callSettings, built, { target: node, keepTarget: true })
+
+		const versions = succeeded ? addVersion(previous, node.text) : previous
+		if (!succeeded) {
+			new Notice('Regenerating failed, the previous version is kept.')
+			showText(node, previous.versions[previous.current])
+		}
+		node.setData({ ...node.getData(), ...versionData(versions) })
+		await canvas.requestSave()
+	}
+
+	/**
+	 * Show the previous (-1) or next (1) version of an assistant note
+	 */
+	const showVersion = async (node: CanvasNode, delta: number) => {
+		if (isGenerating(node)) return
 
+		const current = updateCurrentVersion(readVersions(node.getData(), node.text), node.text)
+		const versions = stepVersion(current, delta)
+		if (!versions) return
+
+		showText(node, versions.versions[versions.current])
+		node.setData({ ...node.getData(), ...versionData(versions) })
+		new Notice(`Version ${versions.current + 1} of ${versions.versions.length}`, 1500)
+		await node.canvas.requestSave()
+	}
+
+	/**
+	 * Whether an assistant note has a version `delta` steps away
+	 */
+	const hasVersion = (node: CanvasNode, delta: number) =>
+		!isGenerating(node) && !!stepVersion(readVersions(node.getData(), node.text), delta)
+
+	// Replace the text of a note and fit its height to it
+	const showText = (node: CanvasNode, text: string) => {
+		node.setText(text)
+		node.moveAndResize({
+			x: node.x,
+			y: node.y,
+			width: node.width,
+			height: calcHeight({ text, parentHeight: node.height })
+		})
+	}
+
+	/**
+	 * Placeholder note for a response to the nodes, next to the first node
+	 * and connected to every node
+	 */
+	const createResponseNode = (
+		canvas: Canvas,
+		nodes: CanvasNode[],
+		callSettings: InfoverseAICanvasSettings,
+		placement?: NodePlacement,
+		color = assistantColor
+	) => {
+		const [node, ...otherNodes] = nodes
+		const created = createNode(
+			canvas,
+			node,
+			{
+				text: `Calling AI (${callSettings.apiModel})...`,
+				size: { height: placeholderNoteHeight }
+			},
+			{
+				color,
+				chat_role: 'assistant'
+			},
+			placement
+		)
+		connectNodes(canvas, otherNodes, created)
+		return created
+	}
+
+	/**
+	 * Ask for an instruction and run it against each selected note on its
+	 * own, with the note and its ancestors as context. Responses are placed
+	 * next to their notes; at most maxConcurrentRequests run at once.
+	 */
+	const runBatch = async () => {
+		const canvas = getActiveCanvas()
+		if (!canvas) {
+			logDebug('No active canvas')
+			return
+		}
+
+		await canvas.requestFrame()
+
+		const nodes = getSelectedNodes(canvas)
+		if (!nodes.length) {
+			new Notice('Select the notes to run the prompt on.')
+			return
+		}
+
+		const instruction = await new BatchPromptModal(app, nodes.length).ask()
+		if (!instruction) return
+
+		// Last typed characters might not be applied to note yet
+		await canvas.requestSave()
+		await sleep(200)
+
+		// Top to bottom, the order the notes are read in
+		const queue = nodes.slice().sort((a, b) => a.y - b.y || a.x - b.x)
+		let completed = 0
+		let failed = 0
+		let stopped = false
+		const progress = new Notice('', 0)
+		const showProgress = (prefix: string) =>
+			progress.setMessage(`${prefix}: ${completed} of ${queue.length} done, ${failed} failed`)
+		showProgress('Running prompt')
+
+		const canCall = createCallGate()
+		await runWithConcurrency(queue, settings.maxConcurrentRequests, async (node) => {
+			if (stopped) return
+			try {
+				const contents: NodeContents = new Map()
+				const callSettings = await getGenerationSettings([node], contents)
+				if (!await canCall(callSettings)) {
+					// Refused by a budget or missing key, which applies to the rest as well
+					stopped = true
+					return
+				}
+
+				const instructionTokens = getTokenizer(callSettings).count(instruction)
+				const built = await buildMessages([node], callSettings, contents, instructionTokens)
+				if (!built.messages.length) {
+					logDebug('Nothing to send for batch note', node.id)
+					failed++
+					showProgress('Running prompt')
+					return
+				}
+
+				const succeeded = await generateResponse(canvas, [node], callSettings, {
+					...built,
+					messages: [...built.messages, { role: 'user', content: instruction }],
+					sources: [...built.sources, { label: 'Batch instruction', tokens: instructionTokens }],
+					tokenCount: built.tokenCount + instructionTokens
+				}, { quiet: true })
+				if (succeeded) completed++
+				else failed++
+			} catch (err) {
+				logDebug('Batch generation failed', err)
+				failed++
+			}
+			showProgress('Running prompt')
+		})
+
+		showProgress(stopped ? 'Prompt stopped' : 'Prompt finished')
+		setTimeout(() => progress.hide(), 5000)
+	}
+
+	const generateMindmap = async () => {
 		logDebug('Creating AI mind-map (H1 root + H2 children)')
 
 		const canvas = getActiveCanvas()
@@ -1470,18 +1365,20 @@ export function noteGenerator(
 
 		await canvas.requestFrame()
 
-		const selection = canvas.selection
-		if (selection?.size !== 1) return
-		const values = Array.from(selection.values()) as CanvasNode[]
-		const node = values[0]
+		const nodes = getSelectedNodes(canvas)
+		const [node, ...otherNodes] = nodes
 
 		if (!node) return
 
-		// Flush any in-progress edits on the selected node so we send the latest text
+		// Flush any in-progress edits on the selected notes so we send the latest text
 		await canvas.requestSave()
 		await sleep(200)
 
-		const { messages, tokenCount } = await buildMessages(node)
+		const contents: NodeContents = new Map()
+		const callSettings = await getGenerationSettings(nodes, contents)
+		if (!await canCallAI(callSettings)) return
+
+		const { messages, tokenCount } = await buildMessages(nodes, callSettings, contents)
 		if (!messages.length) return
 
 		// Placeholder that will become the root note later
@@ -1489,7 +1386,7 @@ export function noteGenerator(
 			canvas,
 			node,
 			{
-				text: `Calling AI (${settings.apiModel})...`,
+				text: `Calling AI (${callSettings.apiModel})...`,
 				size: { height: placeholderNoteHeight }
 			},
 			{
@@ -1497,6 +1394,7 @@ export function noteGenerator(
 				chat_role: 'assistant'
 			}
 		)
+		connectNodes(canvas, otherNodes, placeholder)
 
 		new Notice(`Sending ${messages.length} notes with ${tokenCount} tokens to AI`)
 
@@ -1544,7 +1442,7 @@ export function noteGenerator(
 		//------------------------------------------------------------------
 		// Ensure live-splitting flags are ON so radial layout works during streaming
 		const streamingSettings = {
-			...settings,
+			...callSettings,
 			enableMarkdownSplitting: true,
 			enableStreamingSplit: true
 		} as typeof settings
@@ -1812,14 +1710,9 @@ export function noteGenerator(
 			canvas.requestSave()
 		}
 
-		new Notice(`Streaming ${settings.apiModel} response...`)
+		new Notice(`Streaming ${callSettings.apiModel} response...`)
 
-		await callAIStreaming(
-			messages,
-			streamingHandler.onToken,
-			streamingHandler.onComplete,
-			streamingHandler.onError
-		)
+		await streamToHandler(canvas, callSettings, messages, streamingHandler)
 
 		await canvas.requestSave()
 		return
@@ -1846,45 +1739,31 @@ export function noteGenerator(
 	}
 
 	// ---------------------------------------------------------------------------
-	// Encoding & token limit helpers (re-added after earlier refactor)
+	// Token limit helper (re-added after earlier refactor)
 	// ---------------------------------------------------------------------------
 
-	function getEncoding(settings: InfoverseAICanvasSettings) {
-		const openaiModel: ChatModelSettings | undefined = chatModelByName(settings.apiModel)
-		if (openaiModel) {
-			return encodingForModel(
-				(openaiModel.encodingFrom || openaiModel.name || DEFAULT_SETTINGS.apiModel) as TiktokenModel
-			)
-		}
-
-		// Gemini models – fallback encoding (approximation)
-		return encodingForModel('gpt-3.5-turbo' as TiktokenModel)
-	}
-
 	function getTokenLimit(settings: InfoverseAICanvasSettings) {
-		const openaiModel = chatModelByName(settings.apiModel)
-		if (openaiModel) {
-			return settings.maxInputTokens
-				? Math.min(settings.maxInputTokens, openaiModel.tokenLimit)
-				: openaiModel.tokenLimit
-		}
-
-		const geminiModel = Object.values(GEMINI_MODELS).find(m => m.name === settings.apiModel)
-		if (geminiModel) {
-			return settings.maxInputTokens
-				? Math.min(settings.maxInputTokens, geminiModel.tokenLimit)
-				: geminiModel.tokenLimit
-		}
+		const model = getCatalogModel(settings, settings.apiModel, settings.provider)
+		const tokenLimit = model ? model.tokenLimit : DEFAULT_CONTEXT_WINDOW
 
 		return settings.maxInputTokens
-			? Math.min(settings.maxInputTokens, CHAT_MODELS.GPT_35_TURBO_0125.tokenLimit)
-			: CHAT_MODELS.GPT_35_TURBO_0125.tokenLimit
+			? Math.min(settings.maxInputTokens, tokenLimit)
+			: tokenLimit
 	}
 
 	return {
 		nextNote,
 		generateNote,
+		previewContext,
+		runBatch,
+		generateVariations,
+		compareModels,
+		regenerateNote,
+		showVersion,
+		hasVersion,
 		generateMindmap,
+		stopGeneration,
+		isGenerating,
 		// Debug utilities
 		getLastTreeVisualization,
 		getLastTreeStructure
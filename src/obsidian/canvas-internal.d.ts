@@ -1,4 +1,4 @@
-import { App } from 'obsidian'
+import { App, TFile } from 'obsidian'
 import { AllCanvasNodeData, CanvasData } from 'obsidian/canvas'
 
 export interface CanvasNode {
@@ -55,6 +55,7 @@ export interface CanvasEdge {
 }
 
 export interface Canvas {
+	view: { file: TFile | null }
 	edges: CanvasEdge[]
 	selection: Set<CanvasNode>
 	nodes: CanvasNode[]
@@ -77,18 +77,62 @@ export const calcHeight = (options: { parentHeight: number; text: string }) => {
 	return Math.max(minHeight, calcTextHeight)
 }
 
+type Direction = 'right' | 'bottom' | 'top' | 'left'
+
+/**
+ * Where to put a new node instead of the best free side of its parent
+ */
+export type NodePlacement = {
+	/**
+	 * Side of the parent to place the node on
+	 */
+	direction?: Direction
+
+	/**
+	 * Sibling to place the node beside: to its right when it is above or
+	 * below the parent, otherwise under it
+	 */
+	after?: CanvasNode
+}
+
 /**
  * Determine the best position for a new node relative to its parent
  */
 const determineNodePosition = (
 	canvas: Canvas,
 	parentNode: CanvasNode,
-	nodeOptions: CreateNodeOptions
+	nodeOptions: CreateNodeOptions,
+	placement: NodePlacement = {}
 ) => {
 	const { text } = nodeOptions
 	const width = nodeOptions?.size?.width || Math.max(minWidth, parentNode?.width)
 	const height = nodeOptions?.size?.height || calcHeight({ text, parentHeight: parentNode.height })
 
+	const sibling = placement.after
+	if (sibling) {
+		const besideParent = sibling.x >= parentNode.x + parentNode.width || sibling.x + sibling.width <= parentNode.x
+		if (besideParent) {
+			const right = sibling.x >= parentNode.x + parentNode.width
+			return {
+				x: sibling.x,
+				y: sibling.y + sibling.height + newNoteMargin,
+				width,
+				height,
+				fromSide: right ? 'right' : 'left',
+				toSide: right ? 'left' : 'right'
+			}
+		}
+		const below = sibling.y >= parentNode.y + parentNode.height
+		return {
+			x: sibling.x + sibling.width + newNoteMargin,
+			y: sibling.y,
+			width,
+			height,
+			fromSide: below ? 'bottom' : 'top',
+			toSide: below ? 'top' : 'bottom'
+		}
+	}
+
 	// Get existing children of the parent
 	const children = canvas
 		.getEdgesForNode(parentNode)
@@ -96,7 +140,7 @@ const determineNodePosition = (
 		.map((edge) => edge.to.node)
 
 	// If no children, place to the right
-	if (children.length === 0) {
+	if (children.length === 0 && !placement.direction) {
 		return {
 			x: parentNode.x + parentNode.width + newNoteMargin,
 			y: parentNode.y + (parentNode.height - height) / 2,
@@ -116,8 +160,9 @@ const determineNodePosition = (
 	}
 
 	// Find the direction with the least nodes, preferring right, then bottom, then top, then left
-	const directionPriority = ['right', 'bottom', 'top', 'left'] as const
-	const chosenDirection = directionPriority.find(dir => positions[dir].length === 0) ||
+	const directionPriority: Direction[] = ['right', 'bottom', 'top', 'left']
+	const chosenDirection = placement.direction ||
+		directionPriority.find(dir => positions[dir].length === 0) ||
 		directionPriority.reduce((min, dir) =>
 			positions[dir].length < positions[min].length ? dir : min
 		)
@@ -193,13 +238,14 @@ export const createNode = (
 	canvas: Canvas,
 	parentNode: CanvasNode,
 	nodeOptions: CreateNodeOptions,
-	nodeData?: Partial<AllCanvasNodeData>
+	nodeData?: Partial<AllCanvasNodeData>,
+	placement?: NodePlacement
 ) => {
 	if (!canvas) {
 		throw new Error('Invalid arguments')
 	}
 
-	const position = determineNodePosition(canvas, parentNode, nodeOptions)
+	const position = determineNodePosition(canvas, parentNode, nodeOptions, placement)
 
 	const newNode = canvas.createTextNode({
 		pos: { x: position.x, y: position.y },
@@ -234,6 +280,30 @@ export const createNode = (
 	return newNode
 }
 
+/**
+ * Connect each of the nodes to the target node, on the sides facing each other
+ */
+export const connectNodes = (
+	canvas: Canvas,
+	fromNodes: CanvasNode[],
+	toNode: CanvasNode
+) => {
+	for (const fromNode of fromNodes) {
+		const [fromSide, toSide] =
+			toNode.x >= fromNode.x + fromNode.width ? ['right', 'left']
+				: toNode.x + toNode.width <= fromNode.x ? ['left', 'right']
+					: toNode.y >= fromNode.y + fromNode.height ? ['bottom', 'top']
+						: ['top', 'bottom']
+
+		addEdge(
+			canvas,
+			randomHexString(16),
+			{ fromOrTo: 'from', side: fromSide, node: fromNode },
+			{ fromOrTo: 'to', side: toSide, node: toNode }
+		)
+	}
+}
+
 /**
  * Add edge entry to canvas.
  */
@@ -329,3 +399,16 @@ export const updateGroup = (
 	canvas.importData({ nodes: newNodes, edges: data.edges })
 	canvas.requestFrame()
 }
+
+// Label the edges leading into a node (re-imports canvas data with modifications)
+export const labelEdgesTo = (
+	canvas: Canvas,
+	node: CanvasNode,
+	label: string
+) => {
+	if (!canvas) return
+	const data = canvas.getData()
+	const newEdges = data.edges.map(e => (e.toNode === node.id ? { ...e, label } : e))
+	canvas.importData({ nodes: data.nodes, edges: newEdges })
+	canvas.requestFrame()
+}
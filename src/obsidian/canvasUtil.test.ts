@@ -51,4 +51,19 @@ describe('visitNodeAndAncestors', () => {
 
         expect(visitedNodes).toEqual(['E', 'D'])
     })
+
+    it('should visit the shared ancestors of several nodes once', async () => {
+        const visits: [string, number][] = []
+        const visitor = async (node: TestNode, depth: number) => {
+            visits.push([node.id, depth])
+            return true
+        }
+
+        const starts = nodes.filter(node => ['C', 'D'].includes(node.id))
+        await visitNodeAndAncestors(starts, visitor, nodeParents)
+
+        expect(visits.slice(0, 2)).toEqual([['C', 0], ['D', 0]])
+        expect(visits.map(([id]) => id).sort()).toEqual(['A', 'B', 'C', 'D', 'ROOT'])
+        expect(visits).toContainEqual(['ROOT', 1])
+    })
 })
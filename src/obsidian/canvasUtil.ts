@@ -21,15 +21,25 @@ export function nodeParents(node: CanvasNode) {
 }
 
 /**
- * Visit node and ancestors breadth-first
+ * Selected nodes in traversal order: right to left, then bottom to top,
+ * like the parents from nodeParents
+ */
+export function sortSelectedNodes(nodes: CanvasNode[]) {
+	return nodes.slice().sort((a, b) => b.x - a.x || b.y - a.y)
+}
+
+/**
+ * Visit node and ancestors breadth-first. With several start nodes, their
+ * ancestors are visited together and each node only once.
  */
 export async function visitNodeAndAncestors(
-	start: { id: string },
+	start: HasId | HasId[],
 	visitor: NodeVisitor,
 	getNodeParents: (node: HasId) => HasId[] = nodeParents
 ) {
 	const visited = new Set<string>()
-	const queue: { node: HasId; depth: number }[] = [{ node: start, depth: 0 }]
+	const starts = Array.isArray(start) ? start : [start]
+	const queue: { node: HasId; depth: number }[] = starts.map(node => ({ node, depth: 0 }))
 
 	while (queue.length > 0) {
 		const { node: currentNode, depth } = queue.shift()!
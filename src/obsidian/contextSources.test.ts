@@ -0,0 +1,66 @@
+import { CanvasNode } from './canvas-internal'
+import { contextHighlights, highlightContextNodes } from './contextSources'
+
+const fakeElement = () => {
+    const classes = new Set<string>()
+    return {
+        classes,
+        classList: {
+            toggle: (name: string, force: boolean) => force ? classes.add(name) : classes.delete(name)
+        }
+    }
+}
+
+const fakeNode = (id: string) => ({ id, nodeEl: fakeElement() }) as unknown as CanvasNode
+
+describe('contextHighlights', () => {
+    it('should style included, cut off and left out notes', () => {
+        const [full, cut, summarized, deep] = ['full', 'cut', 'summarized', 'deep'].map(fakeNode)
+
+        const highlights = contextHighlights(
+            [
+                { label: 'System prompt from settings', tokens: 10 },
+                { node: cut, label: 'Note', tokens: 5, truncated: true },
+                { node: full, label: 'Note', tokens: 20 }
+            ],
+            [{ node: deep, reason: 'depth' }],
+            [summarized]
+        )
+
+        expect(highlights.get(full)).toBe('included')
+        expect(highlights.get(cut)).toBe('truncated')
+        expect(highlights.get(summarized)).toBe('truncated')
+        expect(highlights.get(deep)).toBe('excluded')
+        expect(highlights.size).toBe(4)
+    })
+
+    it('should prefer included when a note is also left out', () => {
+        const node = fakeNode('A')
+        const highlights = contextHighlights(
+            [{ node, label: 'Note', tokens: 1 }],
+            [{ node, reason: 'limit' }]
+        )
+
+        expect(highlights.get(node)).toBe('included')
+    })
+})
+
+describe('highlightContextNodes', () => {
+    it('should keep outlines until every generation using the note is done', () => {
+        const node = fakeNode('A')
+        const classes = (node.nodeEl as unknown as ReturnType<typeof fakeElement>).classes
+
+        const clearFirst = highlightContextNodes(new Map([[node, 'excluded' as const]]))
+        expect([...classes]).toEqual(['infoverse-context-excluded'])
+
+        const clearSecond = highlightContextNodes(new Map([[node, 'included' as const]]))
+        expect([...classes]).toEqual(['infoverse-context-included'])
+
+        clearSecond()
+        expect([...classes]).toEqual(['infoverse-context-excluded'])
+
+        clearFirst()
+        clearFirst()
+        expect(classes.size).toBe(0)
+    })
+})
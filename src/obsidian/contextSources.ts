@@ -0,0 +1,106 @@
+import { CanvasNode } from './canvas-internal'
+
+/**
+ * Where a message sent to the AI came from
+ */
+export type MessageSource = {
+	/**
+	 * Note the message was read from; none for the settings system prompt
+	 * and summaries
+	 */
+	node?: CanvasNode,
+
+	/**
+	 * Short description, e.g. "SYSTEM PROMPT note"
+	 */
+	label: string,
+
+	/**
+	 * Estimated tokens of the message text; images are not counted
+	 */
+	tokens: number,
+
+	/**
+	 * The note was cut off at the input token limit
+	 */
+	truncated?: boolean
+}
+
+/**
+ * An ancestor note that was left out of the context
+ */
+export type ExcludedNode = {
+	node: CanvasNode,
+
+	/**
+	 * `depth`: beyond the maximum depth; `limit`: beyond the input token
+	 * limit; `image`: an image the model cannot read; `summarize`: to be
+	 * summarized when sent, in previews
+	 */
+	reason: 'depth' | 'limit' | 'image' | 'summarize'
+}
+
+/**
+ * How a note is outlined while a response is generated from it:
+ * `included` in full, `truncated` (cut off or summarized), or `excluded`
+ */
+export type ContextHighlight = 'included' | 'truncated' | 'excluded'
+
+/**
+ * Outline style of every note that took part in building the context.
+ * A note that is both included and left out on another path counts as
+ * included.
+ */
+export function contextHighlights(
+	sources: MessageSource[],
+	excluded: ExcludedNode[],
+	summarized: CanvasNode[] = []
+) {
+	const highlights = new Map<CanvasNode, ContextHighlight>()
+	excluded.forEach(({ node }) => highlights.set(node, 'excluded'))
+	summarized.forEach(node => highlights.set(node, 'truncated'))
+	sources.forEach(({ node, truncated }) => {
+		if (node) highlights.set(node, truncated ? 'truncated' : 'included')
+	})
+	return highlights
+}
+
+// Highlights per note element, so overlapping generations can share notes
+const activeHighlights = new WeakMap<HTMLElement, ContextHighlight[]>()
+
+const highlightClass = (highlight: ContextHighlight) => `infoverse-context-${highlight}`
+
+function renderHighlight(el: HTMLElement) {
+	const active = activeHighlights.get(el) || []
+	const order: ContextHighlight[] = ['included', 'truncated', 'excluded']
+	// The most inclusive style wins when generations disagree
+	const shown = order.find(highlight => active.includes(highlight))
+	order.forEach(highlight => el.classList.toggle(highlightClass(highlight), highlight === shown))
+}
+
+/**
+ * Outline the notes on the canvas. Returns a function that removes the
+ * outlines again.
+ */
+export function highlightContextNodes(highlights: Map<CanvasNode, ContextHighlight>) {
+	const applied: [HTMLElement, ContextHighlight][] = []
+	highlights.forEach((highlight, node) => {
+		const el = node.nodeEl
+		if (!el) return
+		activeHighlights.set(el, [...(activeHighlights.get(el) || []), highlight])
+		renderHighlight(el)
+		applied.push([el, highlight])
+	})
+
+	let cleared = false
+	return () => {
+		if (cleared) return
+		cleared = true
+		applied.forEach(([el, highlight]) => {
+			const active = (activeHighlights.get(el) || []).slice()
+			active.splice(active.indexOf(highlight), 1)
+			activeHighlights.set(el, active)
+			renderHighlight(el)
+		})
+	}
+}
@@ -1,5 +1,20 @@
-import { App, TFile, resolveSubpath } from 'obsidian'
+import { App, TFile, loadPdfJs, resolveSubpath } from 'obsidian'
+import { AllCanvasNodeData, CanvasData, CanvasFileData } from 'obsidian/canvas'
 import { CanvasNode } from './canvas-internal'
+import { NodeContent, nodeContentText, sortCanvasNodes } from './nodeContent'
+import { Tokenizer } from '../models/llmProvider'
+import { appendLinkedContent, linkLabel, parseWikilinks } from './wikilinks'
+
+/**
+ * MIME types of image files that are sent to the AI as images
+ */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	webp: 'image/webp',
+	gif: 'image/gif'
+}
 
 export async function readFileContent(
 	app: App,
@@ -31,27 +46,183 @@ export async function readFileContent(
 	return body
 }
 
-export async function readNodeContent(node: CanvasNode) {
-	const app = node.app
-	const nodeData = node.getData()
+/**
+ * Limits for resolving the wikilinks and embeds of a note
+ */
+export type LinkResolution = {
+	/**
+	 * Levels of links followed: 1 resolves the links of the note, 2 also
+	 * the links inside the linked notes, and so on
+	 */
+	maxDepth: number,
+
+	/**
+	 * Tokens of linked content added to one note at most
+	 */
+	maxTokens: number,
+
+	tokenizer: Tokenizer
+}
+
+/**
+ * Append the content of the notes linked or embedded in the text, breadth
+ * first, each note once. Links that do not resolve to a markdown file are
+ * left as they are.
+ */
+export async function resolveLinks(
+	app: App,
+	text: string,
+	sourcePath: string,
+	options: LinkResolution
+) {
+	const attachments: { label: string, content: string }[] = []
+	const seen = new Set<string>()
+	const queue = [{ text, sourcePath, depth: 1 }]
+	let remaining = options.maxTokens
+
+	for (let i = 0; i < queue.length && remaining > 0; i++) {
+		const current = queue[i]
+		for (const link of parseWikilinks(current.text)) {
+			if (remaining <= 0) break
+
+			const file = app.metadataCache.getFirstLinkpathDest(link.path, current.sourcePath)
+			if (!file || file.extension !== 'md') continue
+
+			const key = file.path + (link.subpath || '')
+			if (seen.has(key)) continue
+			seen.add(key)
+
+			const content = (await readFileContent(app, file, link.subpath)).trim()
+			if (!content) continue
+
+			const tokens = options.tokenizer.count(content)
+			const kept = tokens > remaining
+				? `${options.tokenizer.truncate(content, remaining)}\n[…truncated]`
+				: content
+			remaining -= Math.min(tokens, remaining)
+			attachments.push({ label: linkLabel(link), content: kept })
+
+			if (current.depth < options.maxDepth) {
+				queue.push({ text: content, sourcePath: file.path, depth: current.depth + 1 })
+			}
+		}
+	}
+
+	return appendLinkedContent(text, attachments)
+}
+
+/**
+ * Nested canvases are flattened this many levels deep
+ */
+const maxCanvasDepth = 2
+
+// Extracted PDF text by path, reused while the file is unchanged
+const pdfTextCache = new Map<string, { mtime: number, text: string }>()
+
+/**
+ * Text of a PDF file, extracted with the pdf.js bundled with Obsidian
+ */
+export async function readPdfText(app: App, file: TFile) {
+	const cached = pdfTextCache.get(file.path)
+	if (cached?.mtime === file.stat.mtime) return cached.text
+
+	const pdfjs = await loadPdfJs()
+	const pdf = await pdfjs.getDocument({ data: new Uint8Array(await app.vault.readBinary(file)) }).promise
+	const pages: string[] = []
+	for (let i = 1; i <= pdf.numPages; i++) {
+		const page = await pdf.getPage(i)
+		const { items } = await page.getTextContent()
+		pages.push((items as { str?: string, hasEOL?: boolean }[])
+			.map(item => (item.str || '') + (item.hasEOL ? '\n' : ''))
+			.join('')
+			.trim())
+	}
+
+	const text = pages.filter(page => page).join('\n\n')
+	pdfTextCache.set(file.path, { mtime: file.stat.mtime, text })
+	return text
+}
+
+/**
+ * Text of the nodes of a canvas file in reading order. Canvases nested
+ * deeper than maxCanvasDepth are only named.
+ */
+export async function readCanvasText(app: App, file: TFile, depth = 1): Promise<string> {
+	if (depth > maxCanvasDepth) return `[Canvas ${file.path}]`
+
+	let data: CanvasData
+	try {
+		data = JSON.parse(await app.vault.read(file))
+	} catch (err) {
+		console.warn('Failed to parse canvas', { file, err })
+		return ''
+	}
+
+	const parts: string[] = []
+	for (const nodeData of sortCanvasNodes(data.nodes || [])) {
+		const content = await readNodeData(app, nodeData, file.path, undefined, depth)
+		const text = content && nodeContentText(content).trim()
+		if (text) parts.push(text)
+	}
+	return parts.join('\n\n')
+}
+
+async function readFileNode(app: App, nodeData: CanvasFileData, canvasDepth: number): Promise<NodeContent | undefined> {
+	const file = app.vault.getAbstractFileByPath(nodeData.file)
+	if (!(file instanceof TFile)) {
+		console.debug('Cannot read from file type', file)
+		return
+	}
+
+	const ext = file.extension
+	if (nodeData.subpath) {
+		return { type: 'text', text: await readFileContent(app, file, nodeData.subpath) }
+	} else if (IMAGE_MIME_TYPES[ext]) {
+		// Images inside a flattened canvas are only named
+		if (canvasDepth) return { type: 'text', text: `[Image ${file.path}]` }
+		const fileBuffer = Buffer.from(await app.vault.adapter.readBinary(file.path))
+		return { type: 'image', url: `data:${IMAGE_MIME_TYPES[ext]};base64,${fileBuffer.toString('base64')}` }
+	} else if (ext === 'pdf') {
+		return { type: 'pdf', file: file.name, text: await readPdfText(app, file) }
+	} else if (ext === 'canvas') {
+		return { type: 'canvas', file: file.name, text: await readCanvasText(app, file, canvasDepth + 1) }
+	} else {
+		const body = await app.vault.read(file)
+		return { type: 'text', text: `## ${file.basename}\n${body}` }
+	}
+}
+
+async function readNodeData(
+	app: App,
+	nodeData: AllCanvasNodeData,
+	sourcePath: string,
+	links: LinkResolution | undefined,
+	canvasDepth: number
+): Promise<NodeContent | undefined> {
 	switch (nodeData.type) {
 		case 'text':
-			return nodeData.text
+			return {
+				type: 'text',
+				text: links ? await resolveLinks(app, nodeData.text, sourcePath, links) : nodeData.text
+			}
 		case 'file':
-			const file = app.vault.getAbstractFileByPath(nodeData.file)
-			if (file instanceof TFile) {
-				const ext = file.extension
-				if (node.subpath) {
-					return await readFileContent(app, file, nodeData.subpath)
-				} else if (ext === 'png' || ext === 'jpg' || ext === 'jpeg') {
-					const fileBuffer = Buffer.from(await app.vault.adapter.readBinary(file.path))
-					return `data:image/${ext};base64,${fileBuffer.toString('base64')}`
-				} else {
-					const body = await app.vault.read(file)
-					return `## ${file.basename}\n${body}`
-				}
-			} else {
-				console.debug('Cannot read from file type', file)
+			return readFileNode(app, nodeData, canvasDepth)
+		case 'link':
+			return {
+				type: 'link',
+				url: nodeData.url,
+				label: typeof nodeData.label === 'string' && nodeData.label.trim() ? nodeData.label.trim() : undefined
 			}
+		case 'group':
+			return nodeData.label?.trim() ? { type: 'group', label: nodeData.label.trim() } : undefined
 	}
 }
+
+/**
+ * Content of a canvas node by type; file nodes are read from the vault.
+ * With `links`, the wikilinks and embeds of text nodes are resolved into
+ * the text.
+ */
+export async function readNodeContent(node: CanvasNode, links?: LinkResolution) {
+	return readNodeData(node.app, node.getData(), node.canvas?.view?.file?.path || '', links, 0)
+}
@@ -0,0 +1,62 @@
+import { AllCanvasNodeData } from 'obsidian/canvas'
+import { containingGroups, nodeContentLabel, nodeContentText, nodeMessageContent, sortCanvasNodes } from './nodeContent'
+
+describe('nodeContentText', () => {
+    it('should render each content type as text', () => {
+        expect(nodeContentText({ type: 'text', text: 'Hello' })).toBe('Hello')
+        expect(nodeContentText({ type: 'pdf', file: 'paper.pdf', text: 'Abstract' })).toBe('## PDF: paper.pdf\nAbstract')
+        expect(nodeContentText({ type: 'canvas', file: 'plan.canvas', text: 'Step 1' })).toBe('## Canvas: plan.canvas\nStep 1')
+        expect(nodeContentText({ type: 'link', url: 'https://example.com', label: 'Example' }))
+            .toBe('Link: [Example](https://example.com)')
+        expect(nodeContentText({ type: 'link', url: 'https://example.com' })).toBe('Link: https://example.com')
+        expect(nodeContentText({ type: 'group', label: 'Research' })).toBe('Group: Research')
+    })
+})
+
+describe('nodeMessageContent', () => {
+    it('should send images as image parts and the rest as text', () => {
+        expect(nodeMessageContent({ type: 'image', url: 'data:image/png;base64,AAAA' })).toEqual([
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }
+        ])
+        expect(nodeMessageContent({ type: 'group', label: 'Research' })).toBe('Group: Research')
+    })
+})
+
+describe('nodeContentLabel', () => {
+    it('should name the kind of note', () => {
+        expect(nodeContentLabel({ type: 'pdf', file: 'paper.pdf', text: '' })).toBe('PDF note')
+    })
+})
+
+describe('sortCanvasNodes', () => {
+    const node = (id: string, x: number, y: number, type: 'text' | 'group' = 'text') =>
+        ({ id, x, y, width: 100, height: 100, type, text: id }) as AllCanvasNodeData
+
+    it('should sort top to bottom, then left to right, groups first', () => {
+        const sorted = sortCanvasNodes([
+            node('bottom', 0, 200),
+            node('right', 100, 0),
+            node('left', 0, 0),
+            node('group', 0, 0, 'group')
+        ])
+
+        expect(sorted.map(n => n.id)).toEqual(['group', 'left', 'right', 'bottom'])
+    })
+})
+
+describe('containingGroups', () => {
+    const group = (id: string, x: number, y: number, width: number, height: number) =>
+        ({ id, type: 'group', label: id, x, y, width, height }) as AllCanvasNodeData
+
+    it('should find the groups around a node, outermost first', () => {
+        const nodes = [
+            group('inner', 50, 50, 300, 300),
+            group('outer', 0, 0, 1000, 1000),
+            group('elsewhere', 2000, 0, 500, 500),
+            { id: 'note', type: 'text', text: 'Hi', x: 100, y: 100, width: 100, height: 100 } as AllCanvasNodeData
+        ]
+
+        expect(containingGroups(nodes[3], nodes).map(g => g.id)).toEqual(['outer', 'inner'])
+        expect(containingGroups(nodes[0], nodes).map(g => g.id)).toEqual(['outer'])
+    })
+})
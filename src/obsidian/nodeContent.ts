@@ -0,0 +1,91 @@
+import { AllCanvasNodeData, CanvasGroupData } from 'obsidian/canvas'
+import { openai } from '../openai/chatGPT-types'
+
+/**
+ * What a canvas node contributes to the context, by node type
+ */
+export type NodeContent =
+	| { type: 'text', text: string }
+	/** Image as a base64 data URL */
+	| { type: 'image', url: string }
+	/** Text extracted from a PDF file */
+	| { type: 'pdf', file: string, text: string }
+	/** Nested canvas flattened to text in reading order */
+	| { type: 'canvas', file: string, text: string }
+	| { type: 'link', url: string, label?: string }
+	| { type: 'group', label: string }
+
+/**
+ * Text of the content, as sent to the AI and used inside flattened canvases.
+ * Every kind of content except plain notes starts with its type, so the
+ * model can tell a PDF, canvas, link or group from a note.
+ */
+export function nodeContentText(content: NodeContent): string {
+	switch (content.type) {
+		case 'text':
+			return content.text
+		case 'image':
+			return '[Image]'
+		case 'pdf':
+			return `## PDF: ${content.file}\n${content.text}`
+		case 'canvas':
+			return `## Canvas: ${content.file}\n${content.text}`
+		case 'link':
+			return content.label ? `Link: [${content.label}](${content.url})` : `Link: ${content.url}`
+		case 'group':
+			return `Group: ${content.label}`
+	}
+}
+
+/**
+ * Message content for the node: an image part for images, otherwise a text
+ * part headed with the content type (see nodeContentText)
+ */
+export function nodeMessageContent(content: NodeContent): openai.ChatCompletionRequestMessage['content'] {
+	return content.type === 'image'
+		? [{ type: 'image_url', image_url: { url: content.url } }]
+		: nodeContentText(content)
+}
+
+const CONTENT_LABELS: Record<NodeContent['type'], string> = {
+	text: 'Note',
+	image: 'Image note',
+	pdf: 'PDF note',
+	canvas: 'Canvas note',
+	link: 'Link note',
+	group: 'Group label'
+}
+
+/**
+ * Short description of the kind of content, e.g. "PDF note"
+ */
+export function nodeContentLabel(content: NodeContent) {
+	return CONTENT_LABELS[content.type]
+}
+
+/**
+ * Nodes of a canvas in reading order: top to bottom, then left to right.
+ * A group comes before the nodes it contains, as it starts above them.
+ */
+export function sortCanvasNodes<T extends AllCanvasNodeData>(nodes: T[]): T[] {
+	return nodes.slice().sort((a, b) =>
+		a.y - b.y ||
+		a.x - b.x ||
+		Number(b.type === 'group') - Number(a.type === 'group')
+	)
+}
+
+/**
+ * Groups whose bounds contain the center of the node, outermost first
+ */
+export function containingGroups(
+	node: { id: string, x: number, y: number, width: number, height: number },
+	nodes: AllCanvasNodeData[]
+): CanvasGroupData[] {
+	const cx = node.x + node.width / 2
+	const cy = node.y + node.height / 2
+	return nodes
+		.filter((group): group is CanvasGroupData => group.type === 'group' && group.id !== node.id)
+		.filter(group => cx >= group.x && cx <= group.x + group.width && cy >= group.y && cy <= group.y + group.height)
+		.sort((a, b) => b.width * b.height - a.width * a.height)
+}
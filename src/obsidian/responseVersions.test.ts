@@ -0,0 +1,41 @@
+import { addVersion, readVersions, stepVersion, updateCurrentVersion, versionData } from './responseVersions'
+
+describe('readVersions', () => {
+    it('should treat the text of a note without versions as its only version', () => {
+        expect(readVersions({}, 'First answer')).toEqual({ versions: ['First answer'], current: 0 })
+    })
+
+    it('should read stored versions and clamp the index', () => {
+        expect(readVersions({ versions: ['A', 'B'], versionIndex: 0 }, 'A')).toEqual({ versions: ['A', 'B'], current: 0 })
+        expect(readVersions({ versions: ['A', 'B'], versionIndex: 7 }, 'B')).toEqual({ versions: ['A', 'B'], current: 1 })
+        expect(readVersions({ versions: ['A', 'B'] }, 'B')).toEqual({ versions: ['A', 'B'], current: 1 })
+    })
+
+    it('should ignore invalid stored versions', () => {
+        expect(readVersions({ versions: [1, 2] }, 'Text')).toEqual({ versions: ['Text'], current: 0 })
+        expect(readVersions({ versions: [] }, 'Text')).toEqual({ versions: ['Text'], current: 0 })
+    })
+})
+
+describe('version changes', () => {
+    const versions = { versions: ['A', 'B', 'C'], current: 1 }
+
+    it('should add a version and show it', () => {
+        expect(addVersion(versions, 'D')).toEqual({ versions: ['A', 'B', 'C', 'D'], current: 3 })
+    })
+
+    it('should step between versions within range', () => {
+        expect(stepVersion(versions, -1)).toEqual({ versions: ['A', 'B', 'C'], current: 0 })
+        expect(stepVersion(versions, 1)).toEqual({ versions: ['A', 'B', 'C'], current: 2 })
+        expect(stepVersion({ ...versions, current: 0 }, -1)).toBeNull()
+        expect(stepVersion({ ...versions, current: 2 }, 1)).toBeNull()
+    })
+
+    it('should keep edits to the shown version', () => {
+        expect(updateCurrentVersion(versions, 'B edited').versions).toEqual(['A', 'B edited', 'C'])
+    })
+
+    it('should store versions as node data', () => {
+        expect(versionData(versions)).toEqual({ versions: ['A', 'B', 'C'], versionIndex: 1 })
+    })
+})
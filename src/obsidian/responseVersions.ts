@@ -0,0 +1,50 @@
+/**
+ * Texts an assistant note has had, stored in its canvas data as `versions`
+ * with the shown one at `versionIndex`
+ */
+export type ResponseVersions = {
+	versions: string[],
+	current: number
+}
+
+/**
+ * Versions stored in node data; a note without them has one version, its
+ * current text
+ */
+export function readVersions(data: Record<string, unknown>, text: string): ResponseVersions {
+	const versions = Array.isArray(data.versions) && data.versions.length &&
+		data.versions.every(version => typeof version === 'string')
+		? data.versions as string[]
+		: [text]
+	const index = typeof data.versionIndex === 'number' ? Math.floor(data.versionIndex) : versions.length - 1
+	return { versions, current: Math.min(versions.length - 1, Math.max(0, index)) }
+}
+
+/**
+ * Node data fields for the versions
+ */
+export function versionData({ versions, current }: ResponseVersions) {
+	return { versions, versionIndex: current }
+}
+
+/**
+ * Keep edits made to the shown version
+ */
+export function updateCurrentVersion({ versions, current }: ResponseVersions, text: string): ResponseVersions {
+	return { versions: versions.map((version, i) => i === current ? text : version), current }
+}
+
+/**
+ * Add a new version and show it
+ */
+export function addVersion({ versions }: ResponseVersions, text: string): ResponseVersions {
+	return { versions: [...versions, text], current: versions.length }
+}
+
+/**
+ * Show the version `delta` steps away, or null when there is none
+ */
+export function stepVersion({ versions, current }: ResponseVersions, delta: number): ResponseVersions | null {
+	const next = current + delta
+	return next >= 0 && next < versions.length ? { versions, current: next } : null
+}
@@ -0,0 +1,46 @@
+import { appendLinkedContent, linkLabel, parseWikilinks } from './wikilinks'
+
+describe('parseWikilinks', () => {
+    it('should find links and embeds with subpaths', () => {
+        expect(parseWikilinks('compare [[Project Brief]] with ![[Spec#Scope]]')).toEqual([
+            { embed: false, path: 'Project Brief', subpath: undefined },
+            { embed: true, path: 'Spec', subpath: '#Scope' }
+        ])
+    })
+
+    it('should drop aliases and keep block references', () => {
+        expect(parseWikilinks('see [[Notes/Plan#^a1b2|the plan]]')).toEqual([
+            { embed: false, path: 'Notes/Plan', subpath: '#^a1b2' }
+        ])
+    })
+
+    it('should skip repeated targets and links within the same note', () => {
+        expect(parseWikilinks('[[A]] [[A]] [[#Heading]] ![[A]]')).toEqual([
+            { embed: false, path: 'A', subpath: undefined }
+        ])
+    })
+
+    it('should find nothing in plain text', () => {
+        expect(parseWikilinks('no [links] here [[]]')).toEqual([])
+    })
+})
+
+describe('linkLabel', () => {
+    it('should say how the note was referenced', () => {
+        expect(linkLabel({ embed: true, path: 'Spec', subpath: '#Scope' })).toBe('Embedded note: Spec#Scope')
+        expect(linkLabel({ embed: false, path: 'Brief' })).toBe('Linked note: Brief')
+    })
+})
+
+describe('appendLinkedContent', () => {
+    it('should append each attachment after a separator', () => {
+        expect(appendLinkedContent('Question', [
+            { label: 'Linked note: A', content: 'Alpha' },
+            { label: 'Linked note: B', content: 'Beta' }
+        ])).toBe('Question\n\n---\nLinked note: A\n\nAlpha\n\n---\nLinked note: B\n\nBeta')
+    })
+
+    it('should leave text without attachments unchanged', () => {
+        expect(appendLinkedContent('Question', [])).toBe('Question')
+    })
+})
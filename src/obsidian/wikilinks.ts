@@ -0,0 +1,54 @@
+/**
+ * A `[[wikilink]]` or `![[embed]]` in note text
+ */
+export type Wikilink = {
+	embed: boolean,
+
+	/**
+	 * Link path without the subpath, e.g. `Spec`
+	 */
+	path: string,
+
+	/**
+	 * Heading or block reference including its `#`, e.g. `#Scope` or `#^a1b2`
+	 */
+	subpath?: string
+}
+
+const WIKILINK_PATTERN = /(!?)\[\[([^[\]|\n]+)(?:\|[^[\]\n]*)?\]\]/g
+
+/**
+ * Wikilinks and embeds in the text, in order, each link target once
+ */
+export function parseWikilinks(text: string): Wikilink[] {
+	const links: Wikilink[] = []
+	const seen = new Set<string>()
+	let match: RegExpExecArray | null
+	WIKILINK_PATTERN.lastIndex = 0
+	while ((match = WIKILINK_PATTERN.exec(text))) {
+		const target = match[2].trim()
+		const hash = target.indexOf('#')
+		const path = hash < 0 ? target : target.slice(0, hash).trim()
+		const subpath = hash < 0 ? undefined : target.slice(hash).trim()
+		// Links within the same note have no path and nothing to add
+		if (!path || seen.has(target)) continue
+		seen.add(target)
+		links.push({ embed: match[1] === '!', path, subpath: subpath && subpath !== '#' ? subpath : undefined })
+	}
+	return links
+}
+
+/**
+ * Label of the content a link resolves to, e.g. `Embedded note: Spec#Scope`
+ */
+export function linkLabel(link: Wikilink) {
+	return `${link.embed ? 'Embedded' : 'Linked'} note: ${link.path}${link.subpath || ''}`
+}
+
+/**
+ * Note text followed by the labelled content of its links
+ */
+export function appendLinkedContent(text: string, attachments: { label: string, content: string }[]) {
+	if (!attachments.length) return text
+	return [text, ...attachments.map(({ label, content }) => `---\n${label}\n\n${content}`)].join('\n\n')
+}
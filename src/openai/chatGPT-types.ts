@@ -23,8 +23,38 @@ export namespace openai {
 				finish_reason: string | null
 			}
 		]
+		/**
+		 * Sent in a final chunk with no choices when `stream_options.include_usage` is set
+		 */
+		usage?: CreateCompletionResponseUsage | null
 	}
 
+	/**
+	 * Text part of a multi-part message
+	 * @export
+	 * @interface ChatCompletionContentPartText
+	 */
+	export interface ChatCompletionContentPartText {
+		type: 'text'
+		text: string
+	}
+
+	/**
+	 * Image part of a multi-part message. The url may be a base64 data URL.
+	 * @export
+	 * @interface ChatCompletionContentPartImage
+	 */
+	export interface ChatCompletionContentPartImage {
+		type: 'image_url'
+		image_url: {
+			url: string
+		}
+	}
+
+	export type ChatCompletionContentPart =
+		| ChatCompletionContentPartText
+		| ChatCompletionContentPartImage
+
 	/**
 	 *
 	 * @export
@@ -39,10 +69,10 @@ export namespace openai {
 		role: ChatCompletionRequestMessageRoleEnum
 		/**
 		 * The contents of the message
-		 * @type {string}
+		 * @type {string | ChatCompletionContentPart[]}
 		 * @memberof ChatCompletionRequestMessage
 		 */
-		content: string | [{}]
+		content: string | ChatCompletionContentPart[]
 		/**
 		 * The name of the user in a multi-user chat
 		 * @type {string}
@@ -137,6 +167,18 @@ export namespace openai {
 		 * @memberof CreateChatCompletionRequest
 		 */
 		max_tokens?: number
+		/**
+		 * Upper bound on generated tokens, including reasoning tokens. Replaces `max_tokens` for reasoning models.
+		 * @type {number}
+		 * @memberof CreateChatCompletionRequest
+		 */
+		max_completion_tokens?: number
+		/**
+		 * Options for streamed responses. `include_usage` adds token counts in a final chunk.
+		 * @type {{ include_usage?: boolean }}
+		 * @memberof CreateChatCompletionRequest
+		 */
+		stream_options?: { include_usage?: boolean }
 		/**
 		 * Number between -2.0 and 2.0. Positive values penalize new tokens based on whether they appear in the text so far, increasing the model\'s likelihood to talk about new topics.  [See more information about frequency and presence penalties.](/docs/api-reference/parameter-details)
 		 * @type {number}
@@ -1,68 +1,188 @@
 import { request, RequestUrlParam } from 'obsidian'
 import OpenAI from 'openai'
 import { openai } from './chatGPT-types'
+import { forwardAbort } from '../utils'
+import { ProviderModel, TokenUsage } from '../models/llmProvider'
 
 export const OPENAI_COMPLETIONS_URL = `https://api.openai.com/v1/chat/completions`
 
-export type ChatModelSettings = {
-	name: string,
-	tokenLimit: number,
-	encodingFrom?: string
-}
+export type ChatModelSettings = ProviderModel
 
 export const CHAT_MODELS = {
-	GPT_35_TURBO: {
-		name: 'gpt-3.5-turbo',
-		tokenLimit: 4096
+	GPT_5: {
+		name: 'gpt-5',
+		tokenLimit: 400000,
+		maxOutputTokens: 128000,
+		tokenizer: 'o200k_base',
+		vision: true,
+		json: true,
+		tools: true,
+		reasoning: true
 	},
-	GPT_35_TURBO_0125: {
-		name: 'gpt-3.5-turbo-0125',
-		tokenLimit: 16385
+	GPT_5_MINI: {
+		name: 'gpt-5-mini',
+		tokenLimit: 400000,
+		maxOutputTokens: 128000,
+		tokenizer: 'o200k_base',
+		vision: true,
+		json: true,
+		tools: true,
+		reasoning: true
 	},
-	GPT_35_16K: {
-		name: 'gpt-3.5-turbo-16k',
-		tokenLimit: 16385
+	GPT_41: {
+		name: 'gpt-4.1',
+		tokenLimit: 1047576,
+		maxOutputTokens: 32768,
+		tokenizer: 'o200k_base',
+		vision: true,
+		json: true,
+		tools: true
 	},
-	GPT_35_TURBO_1106: {
-		name: 'gpt-3.5-turbo-1106',
-		tokenLimit: 16385
+	GPT_41_MINI: {
+		name: 'gpt-4.1-mini',
+		tokenLimit: 1047576,
+		maxOutputTokens: 32768,
+		tokenizer: 'o200k_base',
+		vision: true,
+		json: true,
+		tools: true
+	},
+	GPT_41_NANO: {
+		name: 'gpt-4.1-nano',
+		tokenLimit: 1047576,
+		maxOutputTokens: 32768,
+		tokenizer: 'o200k_base',
+		vision: true,
+		json: true,
+		tools: true
 	},
 	GPT_4o: {
 		name: 'gpt-4o',
-		tokenLimit: 128000
+		tokenLimit: 128000,
+		maxOutputTokens: 16384,
+		tokenizer: 'o200k_base',
+		vision: true,
+		json: true,
+		tools: true
 	},
 	GPT_4o_MINI: {
 		name: 'gpt-4o-mini',
-		encodingFrom: 'gpt-4o',
-		tokenLimit: 16384
+		tokenLimit: 128000,
+		maxOutputTokens: 16384,
+		tokenizer: 'o200k_base',
+		vision: true,
+		json: true,
+		tools: true
 	},
-	GPT_4: {
-		name: 'gpt-4',
-		tokenLimit: 8192
+	O3: {
+		name: 'o3',
+		tokenLimit: 200000,
+		maxOutputTokens: 100000,
+		tokenizer: 'o200k_base',
+		vision: true,
+		json: true,
+		tools: true,
+		reasoning: true
+	},
+	O4_MINI: {
+		name: 'o4-mini',
+		tokenLimit: 200000,
+		maxOutputTokens: 100000,
+		tokenizer: 'o200k_base',
+		vision: true,
+		json: true,
+		tools: true,
+		reasoning: true
+	},
+	O3_MINI: {
+		name: 'o3-mini',
+		tokenLimit: 200000,
+		maxOutputTokens: 100000,
+		tokenizer: 'o200k_base',
+		vision: false,
+		json: true,
+		tools: true,
+		reasoning: true
+	},
+	GPT_4_TURBO: {
+		name: 'gpt-4-turbo',
+		tokenLimit: 128000,
+		maxOutputTokens: 4096,
+		tokenizer: 'cl100k_base',
+		vision: true,
+		json: true,
+		tools: true
+	},
+	GPT_35_TURBO: {
+		name: 'gpt-3.5-turbo',
+		tokenLimit: 16385,
+		maxOutputTokens: 4096,
+		tokenizer: 'cl100k_base',
+		vision: false,
+		json: true,
+		tools: true
 	},
+	// Older snapshots, still served and kept for settings that name them
 	GPT_4_TURBO_PREVIEW: {
 		name: 'gpt-4-turbo-preview',
-		tokenLimit: 128000
+		tokenLimit: 128000,
+		maxOutputTokens: 4096,
+		tokenizer: 'cl100k_base',
+		vision: false,
+		json: true,
+		tools: true
 	},
 	GPT_4_0125_PREVIEW: {
 		name: 'gpt-4-0125-preview',
-		tokenLimit: 128000
+		tokenLimit: 128000,
+		maxOutputTokens: 4096,
+		tokenizer: 'cl100k_base',
+		vision: false,
+		json: true,
+		tools: true
 	},
 	GPT_4_1106_PREVIEW: {
 		name: 'gpt-4-1106-preview',
-		tokenLimit: 128000
+		tokenLimit: 128000,
+		maxOutputTokens: 4096,
+		tokenizer: 'cl100k_base',
+		vision: false,
+		json: true,
+		tools: true
+	},
+	GPT_4: {
+		name: 'gpt-4',
+		tokenLimit: 8192,
+		maxOutputTokens: 8192,
+		tokenizer: 'cl100k_base',
+		vision: false,
+		tools: true
 	},
 	GPT_4_0613: {
 		name: 'gpt-4-0613',
-		tokenLimit: 8192
+		tokenLimit: 8192,
+		maxOutputTokens: 8192,
+		tokenizer: 'cl100k_base',
+		vision: false,
+		tools: true
 	},
-	GPT_4_32K: {
-		name: 'gpt-4-32k',
-		tokenLimit: 32768
+	GPT_35_TURBO_0125: {
+		name: 'gpt-3.5-turbo-0125',
+		tokenLimit: 16385,
+		maxOutputTokens: 4096,
+		tokenizer: 'cl100k_base',
+		vision: false,
+		json: true,
+		tools: true
 	},
-	GPT_4_32K_0613: {
-		name: 'gpt-4-32k-0613',
-		tokenLimit: 32768
+	GPT_35_TURBO_1106: {
+		name: 'gpt-3.5-turbo-1106',
+		tokenLimit: 16385,
+		maxOutputTokens: 4096,
+		tokenizer: 'cl100k_base',
+		vision: false,
+		json: true,
+		tools: true
 	}
 }
 
@@ -140,13 +260,18 @@ export async function getChatGPTStreamingCompletion(
 	settings?: Partial<
 		Omit<openai.CreateChatCompletionRequest, 'messages' | 'model' | 'stream'>
 	>,
-	timeoutMs = 30000 // 30 second default timeout
+	timeoutMs = 30000, // 30 second default timeout
+	signal?: AbortSignal,
+	onUsage?: (usage: TokenUsage) => void
 ): Promise<void> {
-	const headers = {
-		Authorization: `Bearer ${apiKey}`,
+	const headers: Record<string, string> = {
 		'Content-Type': 'application/json',
 		'Accept': 'text/event-stream'
 	}
+	// Local OpenAI-compatible servers may run without a key
+	if (apiKey) {
+		headers.Authorization = `Bearer ${apiKey}`
+	}
 
 	const body: openai.CreateChatCompletionRequest = {
 		messages,
@@ -167,6 +292,7 @@ export async function getChatGPTStreamingCompletion(
 		const timeoutId = setTimeout(() => {
 			controller.abort()
 		}, timeoutMs)
+		forwardAbort(signal, controller)
 
 		// Using fetch instead of Obsidian's request for streaming support
 		const response = await fetch(apiUrl, {
@@ -232,6 +358,13 @@ export async function getChatGPTStreamingCompletion(
 						const parsed: openai.CreateChatCompletionDeltaResponse = JSON.parse(data)
 						const content = parsed.choices?.[0]?.delta?.content
 
+						if (parsed.usage) {
+							onUsage?.({
+								promptTokens: parsed.usage.prompt_tokens,
+								completionTokens: parsed.usage.completion_tokens
+							})
+						}
+
 						if (content) {
 							fullText += content
 							onToken(content)
@@ -270,6 +403,12 @@ export async function getChatGPTStreamingCompletion(
 
 		onComplete(fullText)
 	} catch (error) {
+		// Stopped by the caller, which keeps the partial text itself
+		if (signal?.aborted) {
+			console.debug('OpenAI streaming aborted')
+			return
+		}
+
 		console.error('OpenAI streaming error:', error)
 
 		// Provide more specific error messages
@@ -0,0 +1,45 @@
+import { LlmProvider } from '../models/llmProvider'
+import { tiktokenTokenizer } from '../models/tokenizers'
+import { CHAT_MODELS, getChatGPTStreamingCompletion } from './chatGPT'
+
+export const openaiProvider: LlmProvider = {
+	id: 'OpenAI',
+
+	capabilities: {
+		streaming: true,
+		vision: true,
+		requiresApiKey: true
+	},
+
+	getModels: () => Object.values(CHAT_MODELS),
+
+	getTokenizer: (model) => tiktokenTokenizer(model),
+
+	validateApiKey: (settings) =>
+		settings.openaiApiKey ? undefined : 'Please set your OpenAI API key in the plugin settings',
+
+	streamCompletion: (request, callbacks) =>
+		getChatGPTStreamingCompletion(
+			request.settings.openaiApiKey,
+			request.settings.apiUrl,
+			request.model,
+			request.messages,
+			callbacks.onToken,
+			callbacks.onComplete,
+			callbacks.onError,
+			// Reasoning models reject max_tokens and non-default temperatures
+			request.modelInfo?.reasoning
+				? {
+					max_completion_tokens: request.maxTokens || undefined,
+					stream_options: { include_usage: true }
+				}
+				: {
+					max_tokens: request.maxTokens || undefined,
+					temperature: request.temperature,
+					stream_options: { include_usage: true }
+				},
+			request.timeoutMs,
+			request.signal,
+			callbacks.onUsage
+		)
+}
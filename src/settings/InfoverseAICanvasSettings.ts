@@ -1,6 +1,11 @@
 import { CHAT_MODELS, OPENAI_COMPLETIONS_URL } from 'src/openai/chatGPT'
-import { GEMINI_MODELS } from 'src/gemini/geminiAPI'
-import { ALL_MODELS } from 'src/models/providers'
+import { CLAUDE_MESSAGES_URL } from 'src/anthropic/claudeAPI'
+import { LOCAL_DEFAULT_URL, LocalModelInfo } from 'src/local/localAPI'
+import { getModelCatalog, PROVIDERS } from 'src/models/providers'
+import { ModelCatalogOverride } from 'src/models/modelCatalog'
+import { RateLimit } from 'src/util/requestScheduler'
+import { ModelPrice } from 'src/usage/modelPrices'
+import { Budget } from 'src/usage/budgets'
 
 export interface InfoverseAICanvasSettings {
 	/**
@@ -18,30 +23,70 @@ export interface InfoverseAICanvasSettings {
 	 */
 	geminiApiKey: string
 
+	/**
+	 * The Anthropic API key
+	 */
+	anthropicApiKey: string
+
 	/**
 	 * The URL endpoint for chat
 	 */
 	apiUrl: string
 
 	/**
-	 * The GPT model to use
+	 * The URL endpoint for Anthropic messages
 	 */
-	apiModel: string
+	anthropicApiUrl: string
 
 	/**
-	 * The provider (OpenAI or Gemini)
+	 * Base URL of a local OpenAI-compatible server (Ollama, llama.cpp, ...)
 	 */
-	provider: string
+	localApiUrl: string
+
+	/**
+	 * Optional API key for the local server
+	 */
+	localApiKey: string
+
+	/**
+	 * Models discovered on the local server
+	 */
+	localModels: LocalModelInfo[]
+
+	/**
+	 * Context size to assume for local models. 0 means use the size reported by the server.
+	 */
+	localContextSize: number
+
+	/**
+	 * Models to try in order when the selected model is rate limited or unavailable
+	 */
+	fallbackModels: string[]
+
+	/**
+	 * Models "Compare models" sends the same context to
+	 */
+	comparisonModels: string[]
+
+	/**
+	 * User additions and overrides applied to the built-in model catalog
+	 */
+	modelCatalog: ModelCatalogOverride[]
 
 	/**
-	 * Last selected OpenAI model (for restoring when switching back)
+	 * The GPT model to use
+	 */
+	apiModel: string
+
+	/**
+	 * The id of a registered provider (OpenAI, Gemini, ...)
 	 */
-	lastOpenAIModel: string
+	provider: string
 
 	/**
-	 * Last selected Gemini model (for restoring when switching back)
+	 * Last selected model per provider id (for restoring when switching back)
 	 */
-	lastGeminiModel: string
+	lastModels: Record<string, string>
 
 	/**
 	 * The temperature to use when generating responses (0-2). 0 means no randomness.
@@ -73,6 +118,37 @@ export interface InfoverseAICanvasSettings {
 	 */
 	maxDepth: number
 
+	/**
+	 * What to do with ancestor notes beyond the input token limit: leave them
+	 * out, or summarize them into an "Earlier context summary" message
+	 */
+	contextStrategy: 'truncate' | 'summarize'
+
+	/**
+	 * Model used to summarize overflowing context. Empty means the selected model.
+	 */
+	summaryModel: string
+
+	/**
+	 * Number of responses "Generate variations" creates, from 2 to 5
+	 */
+	variationCount: number
+
+	/**
+	 * Append the content of notes linked or embedded in text notes
+	 */
+	resolveLinks: boolean
+
+	/**
+	 * Levels of links followed when resolving links
+	 */
+	linkDepth: number
+
+	/**
+	 * The maximum number of tokens of linked content added to one note
+	 */
+	maxLinkTokens: number
+
 	/**
 	 * Automatically split AI responses into multiple logical notes (mindmap style)
 	 */
@@ -143,6 +219,31 @@ export interface InfoverseAICanvasSettings {
 	 */
 	streamingTimeout: number
 
+	/**
+	 * AI requests allowed to run at the same time. 0 means unlimited.
+	 */
+	maxConcurrentRequests: number
+
+	/**
+	 * Requests and tokens per minute allowed for each provider
+	 */
+	providerRateLimits: Record<string, RateLimit>
+
+	/**
+	 * Prices per million tokens that override or add to the built-in price table
+	 */
+	modelPrices: Record<string, ModelPrice>
+
+	/**
+	 * Soft and hard spend or token limits per provider and overall
+	 */
+	budgets: Budget[]
+
+	/**
+	 * Start of the period each overridden hard budget was overridden for, by budget key
+	 */
+	budgetOverrides: Record<string, number>
+
 	/**
 	 * Enable streaming performance metrics and debugging
 	 */
@@ -244,17 +345,33 @@ export const DEFAULT_SETTINGS: InfoverseAICanvasSettings = {
 	apiKey: '',
 	openaiApiKey: '',
 	geminiApiKey: '',
+	anthropicApiKey: '',
 	apiUrl: OPENAI_COMPLETIONS_URL,
-	apiModel: CHAT_MODELS.GPT_35_TURBO.name,
-	provider: 'OpenAI',
-	lastOpenAIModel: CHAT_MODELS.GPT_35_TURBO.name,
-	lastGeminiModel: '',
+	anthropicApiUrl: CLAUDE_MESSAGES_URL,
+	localApiUrl: LOCAL_DEFAULT_URL,
+	localApiKey: '',
+	localModels: [],
+	localContextSize: 0,
+	fallbackModels: [],
+	comparisonModels: [],
+	modelCatalog: [],
+	apiModel: CHAT_MODELS.GPT_4o_MINI.name,
+	provider: PROVIDERS.OPENAI,
+	lastModels: {
+		[PROVIDERS.OPENAI]: CHAT_MODELS.GPT_4o_MINI.name
+	},
 	temperature: 1,
 	systemPrompt: DEFAULT_SYSTEM_PROMPT,
 	debug: false,
 	maxInputTokens: 0,
 	maxResponseTokens: 0,
 	maxDepth: 0,
+	contextStrategy: 'truncate',
+	summaryModel: '',
+	variationCount: 3,
+	resolveLinks: false,
+	linkDepth: 1,
+	maxLinkTokens: 2000,
 	enableAutoSplit: false,
 	maxSplitNotes: 6,
 	mindmapColorTheme: '6',
@@ -269,6 +386,11 @@ export const DEFAULT_SETTINGS: InfoverseAICanvasSettings = {
 	enableStreamingControls: false,
 	streamingRetryAttempts: 3,
 	streamingTimeout: 10000,
+	maxConcurrentRequests: 3,
+	providerRateLimits: {},
+	modelPrices: {},
+	budgets: [],
+	budgetOverrides: {},
 	enableStreamingMetrics: false,
 	enableMarkdownSplitting: false,
 	markdownChunkSize: 1000,
@@ -279,18 +401,15 @@ export const DEFAULT_SETTINGS: InfoverseAICanvasSettings = {
 	showMarkdownTreeVisualization: true
 }
 
-export function getModels() {
-	return ALL_MODELS.map(model => ({
+export function getModels(settings: InfoverseAICanvasSettings) {
+	return getModelCatalog(settings).map(model => ({
 		name: model.name,
 		provider: model.provider
 	}))
 }
 
-export function getModelsByProvider(provider: string) {
-	if (provider === 'OpenAI') {
-		return Object.values(CHAT_MODELS).map(model => model.name)
-	} else if (provider === 'Gemini') {
-		return Object.values(GEMINI_MODELS).map(model => model.name)
-	}
-	return []
+export function getModelsByProvider(settings: InfoverseAICanvasSettings, provider: string) {
+	return getModelCatalog(settings)
+		.filter(model => model.provider === provider)
+		.map(model => model.name)
 }
@@ -1,7 +1,12 @@
-import { App, PluginSettingTab, Setting } from 'obsidian'
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian'
 import { InfoverseAICanvasPlugin } from 'src/InfoverseAICanvasPlugin'
 import { getModelsByProvider } from './InfoverseAICanvasSettings'
-import { PROVIDERS } from 'src/models/providers'
+import { getProviders, PROVIDERS } from 'src/models/providers'
+import { fetchLocalModels, LOCAL_DEFAULT_URL } from 'src/local/localAPI'
+import { parseModelCatalog } from 'src/models/modelCatalog'
+import { RateLimit } from 'src/util/requestScheduler'
+import { parseModelPrices } from 'src/usage/modelPrices'
+import { parseBudgets } from 'src/usage/budgets'
 
 export class SettingsTab extends PluginSettingTab {
 	plugin: InfoverseAICanvasPlugin
@@ -21,39 +26,30 @@ export class SettingsTab extends PluginSettingTab {
 			.setName('Provider')
 			.setDesc('Select the AI provider to use.')
 			.addDropdown((cb) => {
-				Object.values(PROVIDERS).forEach((provider) => {
-					cb.addOption(provider, provider)
+				getProviders().forEach((provider) => {
+					cb.addOption(provider.id, provider.id)
 				})
 				cb.setValue(this.plugin.settings.provider)
 				cb.onChange(async (value) => {
+					const settings = this.plugin.settings
+
 					// Save current model selection for the current provider
-					if (this.plugin.settings.provider === 'OpenAI') {
-						this.plugin.settings.lastOpenAIModel = this.plugin.settings.apiModel
-					} else if (this.plugin.settings.provider === 'Gemini') {
-						this.plugin.settings.lastGeminiModel = this.plugin.settings.apiModel
-					}
+					settings.lastModels[settings.provider] = settings.apiModel
 
 					// Update provider
-					this.plugin.settings.provider = value
+					settings.provider = value
 
 					// Restore last selected model for new provider, or use first available
-					const availableModels = getModelsByProvider(value)
+					const availableModels = getModelsByProvider(settings, value)
 					if (availableModels.length > 0) {
-						let targetModel = availableModels[0] // fallback
-
-						if (value === 'OpenAI' && this.plugin.settings.lastOpenAIModel) {
-							// Check if the last OpenAI model is still available
-							if (availableModels.includes(this.plugin.settings.lastOpenAIModel)) {
-								targetModel = this.plugin.settings.lastOpenAIModel
-							}
-						} else if (value === 'Gemini' && this.plugin.settings.lastGeminiModel) {
-							// Check if the last Gemini model is still available
-							if (availableModels.includes(this.plugin.settings.lastGeminiModel)) {
-								targetModel = this.plugin.settings.lastGeminiModel
-							}
-						}
-
-						this.plugin.settings.apiModel = targetModel
+						const lastModel = settings.lastModels[value]
+						// Check if the last model is still available
+						settings.apiModel = lastModel && availableModels.includes(lastModel)
+							? lastModel
+							: availableModels[0]
+					} else {
+						// Never keep another provider's model, it would be routed there
+						settings.apiModel = settings.lastModels[value] || ''
 					}
 
 					await this.plugin.saveSettings()
@@ -66,7 +62,11 @@ export class SettingsTab extends PluginSettingTab {
 			.setName('Model')
 			.setDesc('Select the AI model to use.')
 			.addDropdown((cb) => {
-				const availableModels = getModelsByProvider(this.plugin.settings.provider)
+				const availableModels = getModelsByProvider(this.plugin.settings, this.plugin.settings.provider)
+				// Keep a selected model visible even if it is no longer listed (e.g. local server offline)
+				if (this.plugin.settings.apiModel && !availableModels.includes(this.plugin.settings.apiModel)) {
+					availableModels.unshift(this.plugin.settings.apiModel)
+				}
 				availableModels.forEach((model) => {
 					cb.addOption(model, model)
 				})
@@ -75,16 +75,56 @@ export class SettingsTab extends PluginSettingTab {
 					this.plugin.settings.apiModel = value
 
 					// Also update the last selected model for this provider
-					if (this.plugin.settings.provider === 'OpenAI') {
-						this.plugin.settings.lastOpenAIModel = value
-					} else if (this.plugin.settings.provider === 'Gemini') {
-						this.plugin.settings.lastGeminiModel = value
-					}
+					this.plugin.settings.lastModels[this.plugin.settings.provider] = value
+
+					await this.plugin.saveSettings()
+				})
+			})
 
+		new Setting(containerEl)
+			.setName('Fallback models')
+			.setDesc(
+				'One model per line, tried in order when the selected model is rate limited or unavailable ' +
+				'before it starts answering. Models of providers without an API key are skipped.'
+			)
+			.addTextArea((component) => {
+				component.inputEl.rows = 3
+				component.inputEl.style.width = '300px'
+				component.setPlaceholder('gpt-4.1-mini\ngemini-2.5-flash')
+				component.setValue(this.plugin.settings.fallbackModels.join('\n'))
+				component.onChange(async (value) => {
+					this.plugin.settings.fallbackModels = value
+						.split('\n')
+						.map(line => line.trim())
+						.filter(Boolean)
 					await this.plugin.saveSettings()
 				})
 			})
 
+		new Setting(containerEl)
+			.setName('Comparison models')
+			.setDesc(
+				'One model per line. "Compare models" sends the same context to each of them at once. ' +
+				'Models of providers without an API key are skipped.'
+			)
+			.addTextArea((component) => {
+				component.inputEl.rows = 3
+				component.inputEl.style.width = '300px'
+				component.setPlaceholder('gpt-4o\ngemini-2.5-flash\nllama3.1')
+				component.setValue(this.plugin.settings.comparisonModels.join('\n'))
+				component.onChange(async (value) => {
+					this.plugin.settings.comparisonModels = value
+						.split('\n')
+						.map(line => line.trim())
+						.filter(Boolean)
+					await this.plugin.saveSettings()
+				})
+			})
+
+		if (this.plugin.settings.provider === PROVIDERS.LOCAL) {
+			this.displayLocalServerSettings(containerEl)
+		}
+
 		// API Keys section
 		containerEl.createEl('h3', { text: 'API Keys' })
 
@@ -116,6 +156,20 @@ export class SettingsTab extends PluginSettingTab {
 					})
 			})
 
+		new Setting(containerEl)
+			.setName('Anthropic API Key')
+			.setDesc('Your Anthropic API key - Get from https://console.anthropic.com/settings/keys')
+			.addText((text) => {
+				text.inputEl.type = 'password'
+				text
+					.setPlaceholder('Anthropic API Key')
+					.setValue(this.plugin.settings.anthropicApiKey)
+					.onChange(async (value) => {
+						this.plugin.settings.anthropicApiKey = value
+						await this.plugin.saveSettings()
+					})
+			})
+
 		// System prompt (used for mindmap / default generation)
 		new Setting(containerEl)
 			.setName('System prompt (mind-map / default)')
@@ -186,6 +240,91 @@ export class SettingsTab extends PluginSettingTab {
 					})
 			)
 
+		new Setting(containerEl)
+			.setName('Context overflow')
+			.setDesc('What to do with ancestor notes that do not fit in the input token limit. ' +
+				'Summaries are cached in the notes and only regenerated when the summarized notes change.')
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('truncate', 'Leave out')
+					.addOption('summarize', 'Summarize')
+					.setValue(this.plugin.settings.contextStrategy)
+					.onChange(async (value) => {
+						this.plugin.settings.contextStrategy = value as 'truncate' | 'summarize'
+						await this.plugin.saveSettings()
+					})
+			})
+
+		new Setting(containerEl)
+			.setName('Summary model')
+			.setDesc('Cheap model used to summarize context that does not fit. Leave empty to use the selected model.')
+			.addText((text) =>
+				text
+					.setPlaceholder('gpt-4.1-nano')
+					.setValue(this.plugin.settings.summaryModel)
+					.onChange(async (value) => {
+						this.plugin.settings.summaryModel = value.trim()
+						await this.plugin.saveSettings()
+					})
+			)
+
+		new Setting(containerEl)
+			.setName('Variations')
+			.setDesc('Number of responses "Generate variations" creates side by side, from 2 to 5.')
+			.addText((text) =>
+				text
+					.setValue(this.plugin.settings.variationCount.toString())
+					.onChange(async (value) => {
+						const parsed = parseInt(value)
+						if (!isNaN(parsed) && parsed >= 2 && parsed <= 5) {
+							this.plugin.settings.variationCount = parsed
+							await this.plugin.saveSettings()
+						}
+					})
+			)
+
+		new Setting(containerEl)
+			.setName('Resolve links')
+			.setDesc('Send the content of notes linked with [[wikilinks]] or embedded with ![[embeds]] in text notes, after the note text.')
+			.addToggle((component) => {
+				component
+					.setValue(this.plugin.settings.resolveLinks)
+					.onChange(async (value) => {
+						this.plugin.settings.resolveLinks = value
+						await this.plugin.saveSettings()
+					})
+			})
+
+		new Setting(containerEl)
+			.setName('Link depth')
+			.setDesc('Levels of links to follow. 1 only resolves the links in the note itself.')
+			.addText((text) =>
+				text
+					.setValue(this.plugin.settings.linkDepth.toString())
+					.onChange(async (value) => {
+						const parsed = parseInt(value)
+						if (!isNaN(parsed) && parsed >= 1) {
+							this.plugin.settings.linkDepth = parsed
+							await this.plugin.saveSettings()
+						}
+					})
+			)
+
+		new Setting(containerEl)
+			.setName('Max link tokens')
+			.setDesc('The maximum number of tokens of linked content added to one note.')
+			.addText((text) =>
+				text
+					.setValue(this.plugin.settings.maxLinkTokens.toString())
+					.onChange(async (value) => {
+						const parsed = parseInt(value)
+						if (!isNaN(parsed) && parsed >= 0) {
+							this.plugin.settings.maxLinkTokens = parsed
+							await this.plugin.saveSettings()
+						}
+					})
+			)
+
 		new Setting(containerEl)
 			.setName('Temperature')
 			.setDesc('Sampling temperature (0-2). 0 means no randomness.')
@@ -217,6 +356,22 @@ export class SettingsTab extends PluginSettingTab {
 					})
 			})
 
+		new Setting(containerEl)
+			.setName('Anthropic API URL')
+			.setDesc(
+				"The Anthropic messages URL to use. You probably won't need to change this."
+			)
+			.addText((text) => {
+				text.inputEl.style.width = '300px'
+				text
+					.setPlaceholder('Anthropic API URL')
+					.setValue(this.plugin.settings.anthropicApiUrl)
+					.onChange(async (value) => {
+						this.plugin.settings.anthropicApiUrl = value
+						await this.plugin.saveSettings()
+					})
+			})
+
 		new Setting(containerEl)
 			.setName('Debug output')
 			.setDesc('Enable debug output in the console')
@@ -363,6 +518,8 @@ export class SettingsTab extends PluginSettingTab {
 					})
 			)
 
+		this.displayRequestLimitSettings(containerEl)
+
 		containerEl.createEl('h3', { text: 'Mindmap Visualization' })
 
 		new Setting(containerEl)
@@ -520,6 +677,247 @@ export class SettingsTab extends PluginSettingTab {
 						await this.plugin.saveSettings()
 					})
 			})
+
+		this.displayModelCatalogSettings(containerEl)
+
+		this.displayUsageSettings(containerEl)
+	}
+
+	/**
+	 * Concurrency and per-provider rate limits applied by the request scheduler
+	 */
+	private displayRequestLimitSettings(containerEl: HTMLElement) {
+		containerEl.createEl('h3', { text: 'Request Limits' })
+
+		new Setting(containerEl)
+			.setName('Max concurrent requests')
+			.setDesc('AI requests allowed to run at once across all canvases. Others wait in a queue. 0 for no limit.')
+			.addText((text) =>
+				text
+					.setValue(this.plugin.settings.maxConcurrentRequests.toString())
+					.onChange(async (value) => {
+						const parsed = parseInt(value)
+						if (!isNaN(parsed) && parsed >= 0) {
+							this.plugin.settings.maxConcurrentRequests = parsed
+							await this.plugin.saveSettings()
+						}
+					})
+			)
+
+		getProviders().forEach((provider) => {
+			const limits = this.plugin.settings.providerRateLimits
+			const getLimit = () => limits[provider.id] || { requestsPerMinute: 0, tokensPerMinute: 0 }
+
+			const setLimit = async (field: keyof RateLimit, value: string) => {
+				const parsed = parseInt(value)
+				if (!isNaN(parsed) && parsed >= 0) {
+					limits[provider.id] = { ...getLimit(), [field]: parsed }
+					await this.plugin.saveSettings()
+				}
+			}
+
+			new Setting(containerEl)
+				.setName(`${provider.id} rate limit`)
+				.setDesc('Requests per minute and tokens per minute. 0 for no limit.')
+				.addText((text) => {
+					text.inputEl.style.width = '80px'
+					text
+						.setPlaceholder('RPM')
+						.setValue(getLimit().requestsPerMinute.toString())
+						.onChange((value) => setLimit('requestsPerMinute', value))
+				})
+				.addText((text) => {
+					text.inputEl.style.width = '100px'
+					text
+						.setPlaceholder('TPM')
+						.setValue(getLimit().tokensPerMinute.toString())
+						.onChange((value) => setLimit('tokensPerMinute', value))
+				})
+		})
+	}
+
+	/**
+	 * JSON editor for user additions and overrides to the built-in model catalog
+	 */
+	private displayModelCatalogSettings(containerEl: HTMLElement) {
+		containerEl.createEl('h3', { text: 'Model Catalog' })
+
+		const description = 'Add models or override built-in ones without waiting for a plugin release. ' +
+			'Entries matching a built-in model by provider and name override only the fields they set; ' +
+			'set "hidden": true to remove a model. Fields: provider, name, tokenLimit, maxOutputTokens, ' +
+			'tokenizer, vision, json, tools, reasoning.'
+
+		const setting = new Setting(containerEl)
+			.setName('Custom models')
+			.setDesc(description)
+			.addTextArea((component) => {
+				component.inputEl.rows = 8
+				component.inputEl.style.width = '300px'
+				component.inputEl.style.fontSize = '10px'
+				component.setPlaceholder(
+					'[{"provider": "OpenAI", "name": "gpt-4.1", "tokenLimit": 200000}]'
+				)
+				const overrides = this.plugin.settings.modelCatalog
+				component.setValue(overrides.length ? JSON.stringify(overrides, null, 2) : '')
+				component.onChange(async (value) => {
+					try {
+						this.plugin.settings.modelCatalog = parseModelCatalog(value)
+					} catch (err) {
+						setting.setDesc(`Invalid catalog, not saved: ${err.message || err}`)
+						return
+					}
+					setting.setDesc(description)
+					await this.plugin.saveSettings()
+				})
+			})
+	}
+
+	/**
+	 * Model prices used to cost the usage ledger, budgets, and a link to the usage report
+	 */
+	private displayUsageSettings(containerEl: HTMLElement) {
+		containerEl.createEl('h3', { text: 'Usage & Costs' })
+
+		new Setting(containerEl)
+			.setName('Usage report')
+			.setDesc(`${this.plugin.usageLedger.records.length} requests recorded.`)
+			.addButton((button) =>
+				button
+					.setButtonText('Open report')
+					.onClick(() => this.plugin.openUsageView())
+			)
+
+		const description = 'Prices in US dollars per million tokens, overriding or adding to the built-in prices. ' +
+			'Models without a price, such as local ones, cost nothing.'
+
+		const setting = new Setting(containerEl)
+			.setName('Model prices')
+			.setDesc(description)
+			.addTextArea((component) => {
+				component.inputEl.rows = 6
+				component.inputEl.style.width = '300px'
+				component.inputEl.style.fontSize = '10px'
+				component.setPlaceholder('{"gpt-4.1": {"input": 2, "output": 8}}')
+				const prices = this.plugin.settings.modelPrices
+				component.setValue(Object.keys(prices).length ? JSON.stringify(prices, null, 2) : '')
+				component.onChange(async (value) => {
+					try {
+						this.plugin.settings.modelPrices = parseModelPrices(value)
+					} catch (err) {
+						setting.setDesc(`Invalid prices, not saved: ${err.message || err}`)
+						return
+					}
+					setting.setDesc(description)
+					await this.plugin.saveSettings()
+				})
+			})
+
+		const budgetDescription = 'Spend (US dollars) or token limits as a JSON array. Fields: provider ' +
+			'(a provider name or "all"), period (day, week or month), metric (cost or tokens), softLimit ' +
+			'(warn) and hardLimit (refuse unless overridden). Budgets reset at the start of each period.'
+
+		const budgetSetting = new Setting(containerEl)
+			.setName('Budgets')
+			.setDesc(budgetDescription)
+			.addTextArea((component) => {
+				component.inputEl.rows = 6
+				component.inputEl.style.width = '300px'
+				component.inputEl.style.fontSize = '10px'
+				component.setPlaceholder('[{"provider": "all", "period": "month", "softLimit": 15, "hardLimit": 20}]')
+				const budgets = this.plugin.settings.budgets
+				component.setValue(budgets.length ? JSON.stringify(budgets, null, 2) : '')
+				component.onChange(async (value) => {
+					try {
+						this.plugin.settings.budgets = parseBudgets(value)
+					} catch (err) {
+						budgetSetting.setDesc(`Invalid budgets, not saved: ${err.message || err}`)
+						return
+					}
+					budgetSetting.setDesc(budgetDescription)
+					await this.plugin.saveSettings()
+				})
+			})
+	}
+
+	/**
+	 * Settings for a local OpenAI-compatible server, including model discovery
+	 */
+	private displayLocalServerSettings(containerEl: HTMLElement) {
+		containerEl.createEl('h3', { text: 'Local Server' })
+
+		new Setting(containerEl)
+			.setName('Server URL')
+			.setDesc('Base URL of an Ollama, llama.cpp, LM Studio or other OpenAI-compatible server.')
+			.addText((text) => {
+				text.inputEl.style.width = '300px'
+				text
+					.setPlaceholder(LOCAL_DEFAULT_URL)
+					.setValue(this.plugin.settings.localApiUrl)
+					.onChange(async (value) => {
+						this.plugin.settings.localApiUrl = value
+						await this.plugin.saveSettings()
+					})
+			})
+
+		new Setting(containerEl)
+			.setName('Server API key')
+			.setDesc('Optional. Only needed if your server requires a bearer token.')
+			.addText((text) => {
+				text.inputEl.type = 'password'
+				text
+					.setPlaceholder('API Key (optional)')
+					.setValue(this.plugin.settings.localApiKey)
+					.onChange(async (value) => {
+						this.plugin.settings.localApiKey = value
+						await this.plugin.saveSettings()
+					})
+			})
+
+		const modelCount = this.plugin.settings.localModels.length
+		new Setting(containerEl)
+			.setName('Discover models')
+			.setDesc(
+				modelCount
+					? `${modelCount} model(s) found. Refresh after pulling or loading new models.`
+					: 'Load the list of models available on the server.'
+			)
+			.addButton((button) => {
+				button
+					.setButtonText('Refresh models')
+					.onClick(async () => {
+						button.setDisabled(true)
+						try {
+							const models = await fetchLocalModels(
+								this.plugin.settings.localApiUrl,
+								this.plugin.settings.localApiKey
+							)
+							this.plugin.settings.localModels = models
+							if (models.length && !models.some(m => m.name === this.plugin.settings.apiModel)) {
+								this.plugin.settings.apiModel = models[0].name
+							}
+							await this.plugin.saveSettings()
+							new Notice(`Found ${models.length} local model(s)`)
+						} catch (err) {
+							new Notice(`Could not list models from ${this.plugin.settings.localApiUrl}: ${err.message || err}`)
+						}
+						this.display()
+					})
+			})
+
+		new Setting(containerEl)
+			.setName('Context size')
+			.setDesc('Context window in tokens for local models. 0 means use the size reported by the server.')
+			.addText((text) =>
+				text
+					.setValue(this.plugin.settings.localContextSize.toString())
+					.onChange(async (value) => {
+						const parsed = parseInt(value)
+						if (!isNaN(parsed) && parsed >= 0) {
+							this.plugin.settings.localContextSize = parsed
+							await this.plugin.saveSettings()
+						}
+					})
+			)
 	}
 }
 
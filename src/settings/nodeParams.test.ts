@@ -0,0 +1,68 @@
+import { applyNodeParams, isParamsNode, paramsNodeBody, parseNodeParams } from './nodeParams'
+import { InfoverseAICanvasSettings } from './InfoverseAICanvasSettings'
+
+describe('paramsNodeBody', () => {
+    it('should recognise PARAMS nodes', () => {
+        expect(isParamsNode('  PARAMS\nmodel: gpt-4.1')).toBe(true)
+        expect(isParamsNode('Some PARAMS')).toBe(false)
+    })
+
+    it('should strip the PARAMS line', () => {
+        expect(paramsNodeBody('PARAMS\nmodel: gpt-4.1\ntemperature: 0.2'))
+            .toBe('model: gpt-4.1\ntemperature: 0.2')
+    })
+
+    it('should strip a code fence around the body', () => {
+        expect(paramsNodeBody('PARAMS\n```yaml\nmodel: gpt-4.1\n```'))
+            .toBe('model: gpt-4.1')
+    })
+})
+
+describe('parseNodeParams', () => {
+    it('should read known keys and aliases', () => {
+        expect(parseNodeParams({
+            model: 'gemini-2.5-flash',
+            provider: 'Gemini',
+            temperature: 0.3,
+            max_tokens: 800,
+            max_depth: 2,
+            unknown: 'ignored'
+        })).toEqual({
+            model: 'gemini-2.5-flash',
+            provider: 'Gemini',
+            temperature: 0.3,
+            maxResponseTokens: 800,
+            maxDepth: 2
+        })
+    })
+
+    it('should ignore invalid values', () => {
+        expect(parseNodeParams({ model: 42, temperature: 'hot', max_depth: -1 })).toEqual({})
+        expect(parseNodeParams('model: gpt-4.1')).toEqual({})
+        expect(parseNodeParams(null)).toEqual({})
+    })
+})
+
+describe('applyNodeParams', () => {
+    const settings = {
+        apiModel: 'gpt-4o-mini',
+        provider: 'OpenAI',
+        temperature: 1,
+        maxResponseTokens: 0,
+        maxDepth: 0
+    } as InfoverseAICanvasSettings
+
+    it('should let nearer params win', () => {
+        const applied = applyNodeParams(settings, [
+            { temperature: 0 },
+            { model: 'gpt-4.1', temperature: 0.7, maxDepth: 3 }
+        ])
+
+        expect(applied).toMatchObject({ apiModel: 'gpt-4.1', provider: 'OpenAI', temperature: 0, maxDepth: 3 })
+        expect(settings.apiModel).toBe('gpt-4o-mini')
+    })
+
+    it('should return the settings unchanged without params', () => {
+        expect(applyNodeParams(settings, [])).toEqual(settings)
+    })
+})
@@ -0,0 +1,99 @@
+import { InfoverseAICanvasSettings } from './InfoverseAICanvasSettings'
+
+/**
+ * Generation parameters set by a PARAMS node for the branch below it
+ */
+export type NodeParams = {
+	model?: string
+	provider?: string
+	temperature?: number
+	maxResponseTokens?: number
+	maxDepth?: number
+}
+
+/**
+ * YAML keys accepted for each parameter, in order of preference
+ */
+const PARAM_KEYS: Record<keyof NodeParams, string[]> = {
+	model: ['model'],
+	provider: ['provider'],
+	temperature: ['temperature'],
+	maxResponseTokens: ['max_response_tokens', 'maxResponseTokens', 'max_tokens'],
+	maxDepth: ['max_depth', 'maxDepth']
+}
+
+export const isParamsNode = (text: string) =>
+	text.trim().startsWith('PARAMS')
+
+/**
+ * YAML body of a PARAMS node: everything after the `PARAMS` line, with an
+ * optional surrounding code fence removed
+ */
+export function paramsNodeBody(text: string) {
+	const body = text.trim().replace(/^PARAMS[^\n]*\n?/, '')
+	const fenced = body.match(/^\s*```[a-z]*\n([\s\S]*?)\n```\s*$/)
+	return fenced ? fenced[1] : body
+}
+
+const toNumber = (value: unknown) => {
+	const n = typeof value === 'string' ? parseFloat(value) : value
+	return typeof n === 'number' && isFinite(n) ? n : undefined
+}
+
+/**
+ * Read known parameters from a parsed PARAMS body, ignoring unknown keys
+ * and values of the wrong type
+ */
+export function parseNodeParams(yaml: unknown): NodeParams {
+	if (!yaml || typeof yaml !== 'object') return {}
+	const values = yaml as Record<string, unknown>
+
+	const find = (param: keyof NodeParams) => {
+		const key = PARAM_KEYS[param].find(k => values[k] !== undefined && values[k] !== null)
+		return key ? values[key] : undefined
+	}
+
+	const params: NodeParams = {}
+
+	const model = find('model')
+	if (typeof model === 'string' && model.trim()) params.model = model.trim()
+
+	const provider = find('provider')
+	if (typeof provider === 'string' && provider.trim()) params.provider = provider.trim()
+
+	const temperature = toNumber(find('temperature'))
+	if (temperature !== undefined && temperature >= 0) params.temperature = temperature
+
+	const maxResponseTokens = toNumber(find('maxResponseTokens'))
+	if (maxResponseTokens !== undefined && maxResponseTokens >= 0) {
+		params.maxResponseTokens = Math.floor(maxResponseTokens)
+	}
+
+	const maxDepth = toNumber(find('maxDepth'))
+	if (maxDepth !== undefined && maxDepth >= 0) params.maxDepth = Math.floor(maxDepth)
+
+	return params
+}
+
+/**
+ * Settings for a generation with PARAMS overrides applied. Params are given
+ * nearest node first, so closer PARAMS nodes win over ones further up.
+ */
+export function applyNodeParams(
+	settings: InfoverseAICanvasSettings,
+	paramsList: NodeParams[]
+): InfoverseAICanvasSettings {
+	const params: NodeParams = paramsList.reduceRight(
+		(merged, p) => ({ ...merged, ...p }),
+		{} as NodeParams
+	)
+
+	const overrides: Partial<InfoverseAICanvasSettings> = {}
+	if (params.model !== undefined) overrides.apiModel = params.model
+	if (params.provider !== undefined) overrides.provider = params.provider
+	if (params.temperature !== undefined) overrides.temperature = params.temperature
+	if (params.maxResponseTokens !== undefined) overrides.maxResponseTokens = params.maxResponseTokens
+	if (params.maxDepth !== undefined) overrides.maxDepth = params.maxDepth
+
+	return { ...settings, ...overrides }
+}
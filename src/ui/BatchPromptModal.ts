@@ -0,0 +1,77 @@
+import { App, Modal, Setting } from 'obsidian'
+
+/**
+ * Asks for the instruction to run against each selected note. Resolves to
+ * the instruction, or null when the user cancels or closes the modal.
+ */
+export class BatchPromptModal extends Modal {
+	private resolve: (instruction: string | null) => void = () => { }
+	private decided = false
+	private instruction = ''
+
+	constructor(app: App, private noteCount: number) {
+		super(app)
+	}
+
+	/**
+	 * Open the modal and wait for the instruction
+	 */
+	ask(): Promise<string | null> {
+		return new Promise(resolve => {
+			this.resolve = resolve
+			this.open()
+		})
+	}
+
+	onOpen() {
+		const { contentEl } = this
+		contentEl.empty()
+
+		this.titleEl.setText(`Run prompt on ${this.noteCount} notes`)
+		contentEl.createEl('p', {
+			text: 'Each note gets its own response, generated from the note, its ancestors and this instruction.'
+		})
+
+		const input = contentEl.createEl('textarea', {
+			cls: 'infoverse-batch-prompt',
+			attr: { rows: '4', placeholder: 'Summarize this note in three bullet points' }
+		})
+		input.addEventListener('input', () => { this.instruction = input.value })
+		input.addEventListener('keydown', (event) => {
+			if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+				event.preventDefault()
+				this.submit()
+			}
+		})
+		input.focus()
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText('Cancel')
+					.onClick(() => this.decide(null))
+			)
+			.addButton((button) =>
+				button
+					.setButtonText('Run')
+					.setCta()
+					.onClick(() => this.submit())
+			)
+	}
+
+	onClose() {
+		this.contentEl.empty()
+		this.decide(null)
+	}
+
+	private submit() {
+		if (this.instruction.trim()) this.decide(this.instruction.trim())
+	}
+
+	private decide(instruction: string | null) {
+		if (this.decided) return
+		this.decided = true
+		this.resolve(instruction)
+		this.close()
+	}
+}
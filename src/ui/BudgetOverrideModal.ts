@@ -0,0 +1,63 @@
+import { App, Modal, Setting } from 'obsidian'
+
+/**
+ * Asks whether to go over a hard budget. Resolves to true when the user
+ * overrides, false when they cancel or close the modal.
+ */
+export class BudgetOverrideModal extends Modal {
+	private resolve: (override: boolean) => void = () => { }
+	private decided = false
+
+	constructor(app: App, private reasons: string[]) {
+		super(app)
+	}
+
+	/**
+	 * Open the modal and wait for the user's choice
+	 */
+	ask(): Promise<boolean> {
+		return new Promise(resolve => {
+			this.resolve = resolve
+			this.open()
+		})
+	}
+
+	onOpen() {
+		const { contentEl } = this
+		contentEl.empty()
+
+		this.titleEl.setText('Budget limit reached')
+		contentEl.createEl('p', { text: 'This request is over budget:' })
+		const list = contentEl.createEl('ul')
+		this.reasons.forEach(reason => list.createEl('li', { text: reason }))
+		contentEl.createEl('p', {
+			text: 'Overriding allows requests over these budgets until their period resets.'
+		})
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText('Cancel')
+					.onClick(() => this.decide(false))
+			)
+			.addButton((button) =>
+				button
+					.setButtonText('Override budget')
+					.setWarning()
+					.onClick(() => this.decide(true))
+			)
+	}
+
+	onClose() {
+		this.contentEl.empty()
+		// Closing without choosing cancels the request
+		this.decide(false)
+	}
+
+	private decide(override: boolean) {
+		if (this.decided) return
+		this.decided = true
+		this.resolve(override)
+		this.close()
+	}
+}
@@ -6,6 +6,11 @@ export interface TooltipAction {
 	icon: string
 	tooltip: string
 	action: (node: CanvasNode) => void
+
+	/**
+	 * Show the action only for nodes where this returns true
+	 */
+	isVisible?: (node: CanvasNode) => boolean
 }
 
 export class CanvasTooltip {
@@ -48,12 +53,16 @@ export class CanvasTooltip {
 		this.updateTooltipContent()
 	}
 
+	private getVisibleActions(node: CanvasNode | null) {
+		return this.actions.filter(action => !action.isVisible || (node && action.isVisible(node)))
+	}
+
 	private updateTooltipContent() {
 		if (!this.tooltipEl) return
 
 		this.tooltipEl.innerHTML = ''
 
-		this.actions.forEach(action => {
+		this.getVisibleActions(this.selectedNode).forEach(action => {
 			const buttonEl = document.createElement('button')
 			buttonEl.className = 'canvas-tooltip-button'
 			buttonEl.setAttribute('aria-label', action.tooltip)
@@ -108,7 +117,7 @@ export class CanvasTooltip {
 		if (!this.tooltipEl) return
 
 		// Check if there are any actions to show
-		if (this.actions.length === 0) {
+		if (this.getVisibleActions(node).length === 0) {
 			console.debug('CanvasTooltip: No actions available, not showing tooltip')
 			return
 		}
@@ -121,6 +130,7 @@ export class CanvasTooltip {
 		}
 
 		this.selectedNode = node
+		this.updateTooltipContent()
 
 		// Position the tooltip at the upper right corner of the node
 		const nodeRect = nodeEl.getBoundingClientRect()
@@ -0,0 +1,127 @@
+import { App, Modal, Setting } from 'obsidian'
+import { openai } from '../openai/chatGPT-types'
+import { CanvasNode } from '../obsidian/canvas-internal'
+import { ExcludedNode, MessageSource } from '../obsidian/contextSources'
+import { parseDataUrl } from '../utils'
+
+/**
+ * Context that would be sent for a note
+ */
+export type ContextPreview = {
+	model: string,
+	messages: openai.ChatCompletionRequestMessage[],
+	sources: MessageSource[],
+	tokenCount: number,
+	tokenLimit: number,
+	excluded: ExcludedNode[]
+}
+
+/**
+ * Longest message text shown before it is cut short
+ */
+const maxPreviewChars = 3000
+
+const EXCLUDED_REASONS: Record<ExcludedNode['reason'], string> = {
+	depth: 'beyond max depth',
+	limit: 'beyond the token limit',
+	image: 'image the model cannot read',
+	summarize: 'to be summarized when sent'
+}
+
+/**
+ * Short name of a note: its file, link or first line of text
+ */
+function nodeTitle(node: CanvasNode) {
+	const data = node.getData()
+	if (data.type === 'file') return data.file
+	if (data.type === 'link') return data.url
+	const firstLine = (node.text || '').trim().split('\n')[0]
+	return firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine || '(empty note)'
+}
+
+/**
+ * Shows the exact messages a generation would send, with where each came
+ * from and its token count, and lets the user send them
+ */
+export class ContextPreviewModal extends Modal {
+	constructor(app: App, private preview: ContextPreview, private onSend: () => void) {
+		super(app)
+	}
+
+	onOpen() {
+		const { contentEl } = this
+		const { model, messages, sources, tokenCount, tokenLimit, excluded } = this.preview
+		contentEl.empty()
+		contentEl.addClass('infoverse-context-preview')
+
+		this.titleEl.setText('AI context preview')
+		contentEl.createEl('p', {
+			text: `${messages.length} messages for ${model}: ` +
+				`${tokenCount.toLocaleString()} of ${tokenLimit.toLocaleString()} input tokens`,
+			cls: tokenCount > tokenLimit ? 'infoverse-context-over-limit' : ''
+		})
+
+		messages.forEach((message, i) => this.renderMessage(message, sources[i]))
+
+		if (excluded.length) {
+			contentEl.createEl('h4', { text: `Left out (${excluded.length})` })
+			const list = contentEl.createEl('ul')
+			excluded.forEach(({ node, reason }) =>
+				list.createEl('li', { text: `${nodeTitle(node)}: ${EXCLUDED_REASONS[reason]}` })
+			)
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText('Cancel')
+					.onClick(() => this.close())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText('Send')
+					.setCta()
+					.onClick(() => {
+						this.close()
+						this.onSend()
+					})
+			)
+	}
+
+	onClose() {
+		this.contentEl.empty()
+	}
+
+	private renderMessage(message: openai.ChatCompletionRequestMessage, source?: MessageSource) {
+		const messageEl = this.contentEl.createDiv({ cls: 'infoverse-context-message' })
+		const header = messageEl.createDiv({ cls: 'infoverse-context-message-header' })
+		header.createSpan({ text: message.role, cls: 'infoverse-context-role' })
+		if (source) {
+			header.createSpan({ text: source.node ? `${source.label}: ${nodeTitle(source.node)}` : source.label })
+			header.createSpan({ text: `${source.tokens.toLocaleString()} tokens`, cls: 'infoverse-context-tokens' })
+			if (source.truncated) {
+				header.createSpan({ text: 'truncated', cls: 'infoverse-context-truncated' })
+			}
+		}
+
+		const parts = typeof message.content === 'string'
+			? [{ type: 'text' as const, text: message.content }]
+			: message.content
+
+		for (const part of parts) {
+			if (part.type === 'text') {
+				const text = part.text.length > maxPreviewChars
+					? `${part.text.slice(0, maxPreviewChars)}\n… ${(part.text.length - maxPreviewChars).toLocaleString()} more characters`
+					: part.text
+				messageEl.createEl('pre', { text, cls: 'infoverse-context-text' })
+			} else {
+				const image = parseDataUrl(part.image_url.url)
+				const description = image
+					? `Image: ${image.mimeType}, base64 data URL, ${Math.round(image.data.length * 3 / 4 / 1024)} KB`
+					: `Image: ${part.image_url.url}`
+				messageEl.createDiv({ text: description })
+				messageEl.createEl('img', { attr: { src: part.image_url.url }, cls: 'infoverse-context-image' })
+			}
+		}
+	}
+}
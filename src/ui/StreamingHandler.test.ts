@@ -0,0 +1,125 @@
+import { CanvasNode } from '../obsidian/canvas-internal'
+import { InfoverseAICanvasSettings } from '../settings/InfoverseAICanvasSettings'
+import { StreamingHandler, truncatedMarker } from './StreamingHandler'
+
+type FakeNode = CanvasNode & { text: string, data: Record<string, unknown> }
+
+describe('StreamingHandler', () => {
+    let nodeCounter: number
+
+    const fakeNode = (text = ''): FakeNode => {
+        const node = {
+            id: `node-${nodeCounter++}`,
+            x: 0,
+            y: 0,
+            width: 400,
+            height: 100,
+            text,
+            data: {} as Record<string, unknown>,
+            setText: (newText: string) => { node.text = newText },
+            getData: () => node.data,
+            setData: (data: Record<string, unknown>) => { node.data = data },
+            moveAndResize: () => undefined
+        }
+        return node as unknown as FakeNode
+    }
+
+    const fakeCanvas = () => ({
+        createTextNode: ({ text }: { text: string }) => fakeNode(text),
+        getEdgesForNode: () => [],
+        getData: () => undefined,
+        deselectAll: () => undefined,
+        addNode: () => undefined,
+        removeNode: () => undefined,
+        requestFrame: () => undefined
+    })
+
+    const settings = {
+        apiModel: 'gpt-4o',
+        enableMarkdownSplitting: false,
+        enableStreamingSplit: false,
+        enableStreamingControls: true,
+        showStreamingProgress: false,
+        streamingUpdateInterval: 0,
+        streamingRetryAttempts: 3
+    } as unknown as InfoverseAICanvasSettings
+
+    let target: FakeNode
+    let handler: StreamingHandler
+
+    // Render the throttled updates
+    const render = () => jest.runOnlyPendingTimers()
+
+    beforeEach(() => {
+        jest.useFakeTimers()
+        nodeCounter = 0
+        target = fakeNode('Calling AI...')
+        handler = new StreamingHandler(fakeCanvas(), fakeNode('Question'), target, settings, () => undefined)
+    })
+
+    afterEach(() => {
+        jest.useRealTimers()
+    })
+
+    describe('pause and resume', () => {
+        it('buffers tokens while paused and renders them in order on resume', async () => {
+            await handler.onToken('One')
+            render()
+            handler.pause()
+            await handler.onToken(' two')
+            await handler.onToken(' three')
+            render()
+
+            expect(target.text).toBe('One●')
+            expect(handler.getCurrentText()).toBe('One two three')
+
+            handler.resume()
+            await handler.onToken(' four')
+            render()
+
+            expect(target.text).toBe('One two three four●')
+        })
+
+        it('keeps the buffered tokens when stopped while paused', async () => {
+            await handler.onToken('One')
+            handler.pause()
+            await handler.onToken(' two')
+            handler.stop()
+
+            expect(target.text).toBe('One two' + truncatedMarker)
+            expect(target.data).toMatchObject({ text: 'One two' + truncatedMarker, truncated: true })
+            expect(handler.abortController.signal.aborted).toBe(true)
+            expect(handler.isActive()).toBe(false)
+        })
+
+        it('shows the full text when completed while paused', async () => {
+            await handler.onToken('One')
+            handler.pause()
+            await handler.onToken(' two')
+            handler.onComplete('One two')
+            await handler.onToken(' late')
+            render()
+
+            expect(target.text).toBe('One two')
+            expect(handler.getCurrentText()).toBe('One two')
+            expect(handler.isActive()).toBe(false)
+        })
+    })
+
+    describe('setModel', () => {
+        it('records the model and provider in the response data', () => {
+            target.setData({ color: '6' })
+            handler.setModel('gpt-4o', 'OpenAI')
+
+            expect(target.data).toEqual({ color: '6', model: 'gpt-4o', provider: 'OpenAI' })
+        })
+
+        it('records the fallback model and shows why it is used', () => {
+            handler.setModel('gpt-4o', 'OpenAI')
+            handler.setModel('claude-sonnet-4', 'Anthropic', new Error('HTTP 429: Too Many Requests'))
+
+            expect(target.data).toEqual({ model: 'claude-sonnet-4', provider: 'Anthropic' })
+            expect(target.text).toBe('HTTP 429: Too Many Requests\nFalling back to claude-sonnet-4...')
+        })
+    })
+})
@@ -0,0 +1,1248 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+import { CanvasNode } from '../obsidian/canvas-internal'
+import { calcHeight, createNode } from '../obsidian/canvas-patches'
+import { InfoverseAICanvasSettings } from '../settings/InfoverseAICanvasSettings'
+import { Logger } from '../util/logging'
+
+/**
+ * Color for assistant notes: 6 == purple
+ */
+export const assistantColor = '6'
+
+/**
+ * Appended to the text of a response stopped by the user
+ */
+export const truncatedMarker = '\n\n*[Generation stopped, response truncated]*'
+
+/**
+ * Appended to the text of a response whose stream stalled
+ */
+export const stalledMarker = '\n\n*[Streaming timed out, response truncated]*'
+
+/**
+ * Represents a node in the hierarchical tree structure
+ */
+export interface TreeNode {
+	id: string
+	content: string
+	headerLevel: number
+	headerText: string
+	startIndex: number
+	endIndex: number
+	parentId?: string
+	children: TreeNode[]
+	canvasNode?: CanvasNode
+}
+
+/**
+ * StreamingHandler manages real-time text streaming with header-based live splitting
+ */
+export class StreamingHandler {
+	private currentText = ''
+	private currentNode: CanvasNode | null = null
+	private initialNode: CanvasNode
+	private canvas: any
+	private parentNode: CanvasNode
+	private lastUpdateTime = 0
+	private isCompleted = false
+	private pendingUpdate = false
+	private isPaused = false
+	private pausedTokens: string[] = [] // tokens received while paused, rendered on resume
+	private retryCount = 0
+	private startTime = 0
+	private tokenCount = 0
+	private errorCount = 0
+	private progressNode: CanvasNode | null = null
+	private controlNode: CanvasNode | null = null
+	private pauseButtonEl: HTMLButtonElement | null = null
+	private modelData: { model: string, provider: string } | null = null // model that is answering
+
+	/**
+	 * Aborts the provider request when the generation is stopped
+	 */
+	readonly abortController = new AbortController()
+
+	// Header-based tree splitting properties
+	private treeRoot: TreeNode | null = null
+	private nodeMap = new Map<string, TreeNode>()
+	private lastProcessedLength = 0
+	private enableLiveSplitting = false
+	private nodeCounter = 0
+	// Dynamic hierarchy tracking
+	private firstHeaderLevel: number | null = null // level (1-6) of the first header we encounter
+	private topLevelCurrent: TreeNode | null = null // last node at firstHeaderLevel to attach children to
+
+	// ---------------------------------------------------------------------
+	// Radial layout helpers (streaming)
+	// ---------------------------------------------------------------------
+	private baseRadius() {
+		return this.settings.markdownHierarchySpacing || 300
+	}
+
+	/** Compute depth of a tree node (root=0) */
+	private getDepth(node: TreeNode): number {
+		let depth = 0
+		let current: TreeNode | undefined = node
+		while (current && current.parentId) {
+			const parent = this.nodeMap.get(current.parentId)
+			if (!parent) break
+			depth++
+			current = parent
+		}
+		return depth
+	}
+
+	/**
+	 * Arrange children of the given parentTreeNode in a radial fashion and
+	 * recursively process deeper levels. Runs lightweight on every new header.
+	 */
+	private applyRadialLayout(parentTreeNode: TreeNode) {
+		const parentCanvas: CanvasNode = parentTreeNode.canvasNode || this.parentNode
+		if (!parentCanvas) return // safety
+
+		const children = parentTreeNode.children.filter(c => c.canvasNode)
+		if (children.length === 0) return
+
+		const n = children.length
+
+		// ------------------------------------------------------------------
+		// Custom angle mapping for the first five root-level children so
+		// that their positions match the exact sequence requested by the
+		// user.  For any deeper levels or n > 5 we keep using the regular
+		// even-spacing algorithm.
+		// ------------------------------------------------------------------
+		const getAngleSequence = (num: number): number[] => {
+			if (num === 1) return [0]
+
+			// Mirrored left-right ordering to keep the layout visually balanced.
+			// Example (n = 6): 0°, 180°, 60°, 240°, 120°, 300°
+			const increment = (2 * Math.PI) / num
+			const bases = Array.from({ length: num }, (_v, i) => i * increment)
+			const ordered: number[] = []
+			while (bases.length) {
+				ordered.push(bases.shift()!)
+				if (bases.length) {
+					ordered.push(bases.pop()!)
+				}
+			}
+			return ordered
+		}
+
+		const angles = getAngleSequence(n)
+
+		// We still need a generic increment value for certain geometric
+		// calculations even when we use a custom sequence.
+		const angleIncrement = n === 1 ? 0 : (2 * Math.PI) / n
+
+		// Size-aware radius calculation --------------------------------------------------
+		const margin = 40
+		// --- Determine dimensions -------------------------------------------------
+		const maxChildWidth = Math.max(...children.map(c => c.canvasNode!.width))
+		const maxChildHeight = Math.max(...children.map(c => c.canvasNode!.height))
+		// Half-diagonals (distance from center to farthest corner)
+		const childHalfDiag = Math.sqrt(Math.pow(maxChildWidth / 2, 2) + Math.pow(maxChildHeight / 2, 2))
+		const parentHalfDiag = Math.sqrt(Math.pow(parentCanvas.width / 2, 2) + Math.pow(parentCanvas.height / 2, 2))
+		// a) radius so that children don't overlap each other (circle-packing)
+		const childCircleRadius = n === 1 ? 0 : (childHalfDiag * 2 + margin) / (2 * Math.sin(angleIncrement / 2))
+		// b) radius so that children clear the parent completely
+		const parentClearRadius = parentHalfDiag + childHalfDiag + margin
+		const minRadius = Math.max(childCircleRadius, parentClearRadius)
+		// c) User-configurable base radius scaled by hierarchy depth
+		const depthLevel = this.getDepth(parentTreeNode) + 1 // children are one level deeper
+		const baseDepthRadius = this.baseRadius() + (depthLevel - 1) * 150
+		// Final radius meets all constraints
+		let radius = Math.max(baseDepthRadius, minRadius)
+
+		// Give extra breathing space when we have many children (default-case path)
+		if (n > 5) {
+			radius *= 1.2
+		}
+
+		children.forEach((child, idx) => {
+			const angle = angles[idx % angles.length]
+			let newX = parentCanvas.x + radius * Math.cos(angle)
+			let newY = parentCanvas.y + radius * Math.sin(angle)
+
+			// Clamp to a reasonable viewport (avoid negative off-canvas positions)
+			newX = Math.max(50, newX)
+			newY = Math.max(0, newY)
+
+			child.canvasNode!.moveAndResize({
+				x: newX,
+				y: newY,
+				width: child.canvasNode!.width,
+				height: child.canvasNode!.height
+			})
+
+			// Recursive layout for grandchildren
+			if (child.children.length) {
+				this.applyRadialLayout(child)
+			}
+		})
+	}
+
+	constructor(
+		canvas: any,
+		parentNode: CanvasNode,
+		initialNode: CanvasNode,
+		private settings: InfoverseAICanvasSettings,
+		private logDebug: Logger
+	) {
+		this.canvas = canvas
+		this.parentNode = parentNode
+		this.currentNode = initialNode
+		this.initialNode = initialNode
+		this.startTime = Date.now()
+		this.enableLiveSplitting = settings.enableMarkdownSplitting && settings.enableStreamingSplit
+
+		// Debug log the initialization
+		this.logDebug(`StreamingHandler initialized:`, {
+			enableMarkdownSplitting: settings.enableMarkdownSplitting,
+			enableStreamingSplit: settings.enableStreamingSplit,
+			enableLiveSplitting: this.enableLiveSplitting
+		})
+
+		// Initialize the tree structure if live splitting is enabled
+		if (this.enableLiveSplitting) {
+			this.initializeTreeStructure(initialNode)
+			this.logDebug('Header-based live splitting enabled, tree structure initialized')
+		}
+
+		// Initialize progress tracking if enabled
+		if (this.settings.showStreamingProgress) {
+			this.createProgressIndicator()
+		}
+
+		// Initialize streaming controls if enabled
+		if (this.settings.enableStreamingControls) {
+			this.createStreamingControls()
+		}
+	}
+
+	/**
+	 * Initialize the tree structure with the initial node
+	 */
+	private initializeTreeStructure(initialNode: CanvasNode) {
+		this.treeRoot = {
+			id: `node-${this.nodeCounter++}`,
+			content: '',
+			headerLevel: 0,
+			headerText: 'Root',
+			startIndex: 0,
+			endIndex: 0,
+			children: [],
+			canvasNode: initialNode
+		}
+		this.nodeMap.set(this.treeRoot.id, this.treeRoot)
+		this.logDebug('Tree structure initialized with root node')
+	}
+
+	/**
+	 * Get current text for external access, including tokens buffered while paused
+	 */
+	getCurrentText(): string {
+		return this.currentText + this.pausedTokens.join('')
+	}
+
+	/**
+	 * Create a progress indicator node
+	 */
+	private createProgressIndicator() {
+		try {
+			const progressText = this.enableLiveSplitting
+				? '📊 Streaming with header-based splitting: 0 tokens, 0 chars/sec'
+				: '📊 Streaming: 0 tokens, 0 chars/sec'
+
+			this.progressNode = createNode(
+				this.canvas,
+				this.parentNode,
+				{
+					text: progressText,
+					size: { height: 60 }
+				},
+				{
+					color: '3', // Yellow for progress
+					chat_role: 'system'
+				}
+			)
+		} catch (error) {
+			this.logDebug('Failed to create progress indicator:', error)
+		}
+	}
+
+	/**
+	 * Update progress indicator
+	 */
+	private updateProgress() {
+		if (!this.progressNode || !this.settings.showStreamingProgress) return
+
+		const elapsed = (Date.now() - this.startTime) / 1000
+		const charRate = elapsed > 0 ? Math.round(this.currentText.length / elapsed) : 0
+		const nodeCount = this.nodeMap.size
+
+		let progressText = this.enableLiveSplitting
+			? `📊 Header-Based Streaming: ${this.tokenCount} tokens | ${nodeCount} nodes | ${charRate} chars/sec`
+			: `📊 Streaming: ${this.tokenCount} tokens | ${this.currentText.length} chars | ${charRate} chars/sec`
+
+		if (this.settings.enableStreamingMetrics) {
+			const errorRate = this.errorCount > 0 ? `| ${this.errorCount} errors` : ''
+			const retryInfo = this.retryCount > 0 ? `| ${this.retryCount} retries` : ''
+			progressText += ` ${errorRate} ${retryInfo}`
+		}
+
+		this.progressNode.setText(progressText)
+	}
+
+	/**
+	 * Parse headers from markdown text and return header information
+	 */
+	private parseHeaders(text: string): Array<{
+		level: number
+		text: string
+		startIndex: number
+		endIndex: number
+		fullLine: string
+	}> {
+		const headers: Array<{
+			level: number
+			text: string
+			startIndex: number
+			endIndex: number
+			fullLine: string
+		}> = []
+
+		const lines = text.split('\n')
+		let currentIndex = 0
+
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i]
+			const headerMatch = line.match(/^(#{1,6})\s+(.+)$/)
+
+			if (headerMatch) {
+				const level = headerMatch[1].length
+				const headerText = headerMatch[2].trim()
+
+				headers.push({
+					level,
+					text: headerText,
+					startIndex: currentIndex,
+					endIndex: currentIndex + line.length,
+					fullLine: line
+				})
+			}
+
+			currentIndex += line.length + 1 // +1 for newline
+		}
+
+		return headers
+	}
+
+	/**
+	 * Check for new headers and split content accordingly
+	 */
+	private async tryHeaderBasedSplit() {
+		if (!this.enableLiveSplitting || this.currentText.length <= this.lastProcessedLength) {
+			return
+		}
+
+		const allHeaders = this.parseHeaders(this.currentText)
+
+		this.logDebug(`Checking for new headers. Total headers found: ${allHeaders.length}`)
+
+		// Find headers that are in the new content
+		const newHeaders = allHeaders.filter(header =>
+			header.startIndex >= this.lastProcessedLength
+		)
+
+		if (newHeaders.length === 0) {
+			// No new headers, just update the current node
+			this.updateCurrentActiveNode()
+			return
+		}
+
+		this.logDebug(`Found ${newHeaders.length} new headers:`, newHeaders.map(h => `${h.level}: ${h.text}`))
+
+		// Process each new header
+		for (const header of newHeaders) {
+			await this.processNewHeader(header)
+		}
+
+		this.lastProcessedLength = this.currentText.length
+	}
+
+	/**
+	 * Process a new header by creating appropriate tree nodes
+	 */
+	private async processNewHeader(header: {
+		level: number
+		text: string
+		startIndex: number
+		endIndex: number
+		fullLine: string
+	}) {
+		// Determine allowed depth dynamically
+		if (this.firstHeaderLevel === null) {
+			this.firstHeaderLevel = header.level
+		}
+
+		const maxAllowedLevel = this.firstHeaderLevel + 1
+		if (header.level > maxAllowedLevel) {
+			return // ignore deeper headers
+		}
+
+		try {
+			// Decide parent based on dynamic flat hierarchy rules
+			let parentTreeNode: TreeNode | null
+			if (header.level === this.firstHeaderLevel) {
+				parentTreeNode = this.treeRoot
+			} else {
+				// header.level == firstHeaderLevel + 1
+				parentTreeNode = this.topLevelCurrent || this.treeRoot
+			}
+
+			if (!parentTreeNode) {
+				this.logDebug('No parent available for new header, skipping')
+				return
+			}
+
+			// Find content before header and update previous node
+			const contentBeforeHeader = this.currentText.slice(this.lastProcessedLength, header.startIndex).trim()
+
+			// ---------------------------------------------------------------------
+			// Root-note fix: if the very first header starts at index 0 we know that
+			// there is no real root-level content.  The original placeholder canvas
+			// node would otherwise keep showing "Calling AI…" (or similar) and later
+			// get filled with the complete text, effectively duplicating content.
+			//
+			// We therefore remove (or clear) the visual root node and demote the
+			// treeRoot so that it will never be selected by
+			// getCurrentActiveTreeNode() again.
+			// ---------------------------------------------------------------------
+			if (header.startIndex === 0 && this.treeRoot && this.nodeMap.size === 1) {
+				try {
+					if (this.treeRoot.canvasNode) {
+						// Remove only the visual element – the logical root stays for hierarchy
+						this.canvas.removeNode(this.treeRoot.canvasNode)
+						this.treeRoot.canvasNode = undefined
+					}
+					// Ensure root is not treated as the most recent node anymore
+					this.treeRoot.startIndex = -1
+					this.logDebug('Root placeholder removed after first header at index 0')
+				} catch (cleanupErr) {
+					this.logDebug('Failed to remove root placeholder', cleanupErr)
+				}
+			}
+
+			if (contentBeforeHeader.length > 0) {
+				this.updateCurrentActiveNode()
+			}
+
+			const newTreeNode: TreeNode = {
+				id: `node-${this.nodeCounter++}`,
+				content: '',
+				headerLevel: header.level,
+				headerText: header.text,
+				startIndex: header.startIndex,
+				endIndex: header.endIndex,
+				parentId: parentTreeNode.id,
+				children: []
+			}
+
+			// Attach to parent and update maps
+			parentTreeNode.children.push(newTreeNode)
+			await this.createCanvasNodeForTreeNode(newTreeNode, parentTreeNode)
+			this.nodeMap.set(newTreeNode.id, newTreeNode)
+
+			// Update top-level tracker
+			if (header.level === this.firstHeaderLevel) {
+				this.topLevelCurrent = newTreeNode
+			}
+
+			// After creating the node, apply radial layout on its parent to keep
+			// siblings evenly distributed during streaming.
+			this.applyRadialLayout(parentTreeNode)
+
+			this.logDebug(`Created tree node for header: "${header.text}" (level ${header.level})`)
+
+		} catch (error) {
+			this.logDebug('Error processing new header:', error)
+		}
+	}
+
+	/**
+	 * Find the appropriate parent node for a given header level
+	 */
+	private findParentForLevel(headerLevel: number): TreeNode | null {
+		if (!this.treeRoot || headerLevel <= 1) {
+			return this.treeRoot
+		}
+
+		// Find the most recent node at a higher level (lower number)
+		const nodes = Array.from(this.nodeMap.values())
+		const candidateParents = nodes.filter(node =>
+			node.headerLevel < headerLevel && node.headerLevel > 0
+		)
+
+		if (candidateParents.length === 0) {
+			return this.treeRoot
+		}
+
+		// Sort by start index to get the most recent parent
+		candidateParents.sort((a, b) => b.startIndex - a.startIndex)
+		return candidateParents[0]
+	}
+
+	/**
+	 * Create a canvas node for a tree node
+	 */
+	private async createCanvasNodeForTreeNode(treeNode: TreeNode, parentTreeNode: TreeNode | null) {
+		try {
+			// Determine color based on header level
+			const color = this.getNodeColorByLevel(treeNode.headerLevel)
+
+			// Calculate position in the tree layout
+			const position = this.calculateTreePosition(treeNode, parentTreeNode)
+
+			// Create initial content with just the header
+			const initialContent = treeNode.headerLevel > 0
+				? '#'.repeat(treeNode.headerLevel) + ' ' + treeNode.headerText
+				: treeNode.headerText
+
+			// Create canvas node
+			const canvasNode = createNode(
+				this.canvas,
+				parentTreeNode?.canvasNode || this.parentNode,
+				{
+					text: initialContent,
+					size: {
+						height: calcHeight({
+							text: initialContent,
+							parentHeight: this.parentNode.height
+						})
+					}
+				},
+				{
+					color: color,
+					chat_role: 'assistant',
+					...this.modelData
+				}
+			)
+
+			// Position the node
+			canvasNode.moveAndResize({
+				x: position.x,
+				y: position.y,
+				width: 400,
+				height: canvasNode.height
+			})
+
+			// Store reference in tree node
+			treeNode.canvasNode = canvasNode
+
+			// Create edge if hierarchy is enabled and there's a parent
+			if (this.settings.enableMarkdownHierarchy && parentTreeNode?.canvasNode) {
+				try {
+					const sides = this.getEdgeSides(parentTreeNode.canvasNode, canvasNode)
+						; (this.canvas as any).createEdge?.(parentTreeNode.canvasNode, canvasNode, sides)
+					this.logDebug('Created edge between nodes')
+				} catch (edgeError) {
+					this.logDebug('Edge creation failed', edgeError)
+				}
+			}
+
+			this.logDebug(`Created canvas node for "${treeNode.headerText}" at position (${position.x}, ${position.y})`)
+
+		} catch (error) {
+			this.logDebug('Failed to create canvas node for tree node:', error)
+		}
+	}
+
+	/**
+	 * Get node color based on header level
+	 */
+	private getNodeColorByLevel(level: number): string {
+		switch (level) {
+			case 0: return '2' // Orange for root content
+			case 1: return '1' // Red for H1
+			case 2: return '4' // Green for H2
+			case 3: return '5' // Purple for H3
+			case 4: return '6' // Pink for H4
+			case 5: return '3' // Yellow for H5
+			case 6: return assistantColor // Default purple for H6
+			default: return assistantColor
+		}
+	}
+
+	/**
+	 * Calculate position for a tree node in canvas space
+	 */
+	private calculateTreePosition(treeNode: TreeNode, parentTreeNode: TreeNode | null): { x: number, y: number } {
+		const baseX = this.parentNode.x
+		const baseY = this.parentNode.y + this.parentNode.height + 100
+
+		if (!parentTreeNode || !parentTreeNode.canvasNode) {
+			// Root level - arrange vertically
+			const siblingIndex = this.treeRoot?.children.indexOf(treeNode) || 0
+			return {
+				x: baseX,
+				y: baseY + (siblingIndex * 250)
+			}
+		}
+
+		// Child node - position relative to parent
+		const parentPos = {
+			x: parentTreeNode.canvasNode.x,
+			y: parentTreeNode.canvasNode.y
+		}
+
+		const siblings = parentTreeNode.children
+		const siblingIndex = siblings.indexOf(treeNode)
+
+		// Position children to the right of parent
+		const horizontalSpacing = this.settings.markdownHierarchySpacing || 450
+		const verticalSpacing = 200
+
+		return {
+			x: parentPos.x + horizontalSpacing,
+			y: parentPos.y + (siblingIndex * verticalSpacing)
+		}
+	}
+
+	/**
+	 * Update the currently active node (the last created node or root)
+	 */
+	private updateCurrentActiveNode() {
+		if (!this.enableLiveSplitting) {
+			// Single node mode
+			if (this.currentNode) {
+				const displayText = this.isCompleted ? this.currentText : `${this.currentText}●`
+				this.currentNode.setText(displayText)
+				this.resizeNode(this.currentNode, displayText)
+			}
+			return
+		}
+
+		// Tree mode - update the most recent node that should contain current content
+		const currentActiveNode = this.getCurrentActiveTreeNode()
+		if (!currentActiveNode?.canvasNode) {
+			return
+		}
+
+		// Get content for this node (from its start to current position or next header)
+		const nodeContent = this.getContentForTreeNode(currentActiveNode)
+		const displayText = this.isCompleted ? nodeContent : `${nodeContent}●`
+
+		currentActiveNode.canvasNode.setText(displayText)
+		this.resizeNode(currentActiveNode.canvasNode, displayText)
+
+		// Update the tree node's content and end index
+		currentActiveNode.content = nodeContent
+		currentActiveNode.endIndex = currentActiveNode.startIndex + nodeContent.length
+	}
+
+	/**
+	 * Get the current active tree node (where new content should be added)
+	 */
+	private getCurrentActiveTreeNode(): TreeNode | null {
+		if (!this.treeRoot) return null
+
+		// Consider only nodes that still have a visible canvas element
+		const allNodes = Array.from(this.nodeMap.values()).filter(n => n.canvasNode)
+		if (allNodes.length === 0) return this.treeRoot
+
+		allNodes.sort((a, b) => b.startIndex - a.startIndex)
+		return allNodes[0]
+	}
+
+	/**
+	 * Get content that belongs to a specific tree node
+	 */
+	private getContentForTreeNode(treeNode: TreeNode): string {
+		if (!treeNode) return ''
+
+		const startIndex = treeNode.startIndex
+		let endIndex = this.currentText.length
+
+		// Find the next header at the same or higher level to determine where this content ends
+		const allHeaders = this.parseHeaders(this.currentText)
+		for (const header of allHeaders) {
+			if (header.startIndex <= startIndex) continue
+
+			// Special-case root: stop at the very first header of ANY level
+			if (treeNode.headerLevel === 0) {
+				endIndex = header.startIndex
+				break
+			}
+
+			// For non-root nodes end right before the *next* header that is either
+			//  • the same level (another sibling)
+			//  • or exactly one level deeper (its first child)
+			// This prevents the parent from including the child header text itself.
+			if (header.level <= treeNode.headerLevel + 1) {
+				endIndex = header.startIndex
+				break
+			}
+		}
+
+		return this.currentText.slice(startIndex, endIndex).trim()
+	}
+
+	/**
+	 * Resize a canvas node based on its content
+	 */
+	private resizeNode(canvasNode: CanvasNode, text: string) {
+		const newHeight = calcHeight({
+			text: text,
+			parentHeight: this.parentNode.height
+		})
+
+		canvasNode.moveAndResize({
+			height: newHeight,
+			width: canvasNode.width,
+			x: canvasNode.x,
+			y: canvasNode.y
+		})
+	}
+
+	/**
+	 * Pause rendering. Tokens keep arriving and are buffered until resume.
+	 */
+	pause() {
+		if (this.settings.enableStreamingControls) {
+			this.isPaused = true
+			this.updateStreamingControls()
+			this.logDebug('Streaming paused')
+		}
+	}
+
+	/**
+	 * Resume rendering, flushing the tokens buffered while paused
+	 */
+	resume() {
+		if (this.settings.enableStreamingControls) {
+			this.isPaused = false
+			this.updateStreamingControls()
+			this.logDebug(`Streaming resumed, flushing ${this.pausedTokens.length} buffered tokens`)
+			this.flushPausedTokens()
+		}
+	}
+
+	/**
+	 * Render tokens buffered during a pause as a single chunk
+	 */
+	private async flushPausedTokens() {
+		if (!this.pausedTokens.length || this.isCompleted) return
+
+		const tokens = this.pausedTokens
+		this.pausedTokens = []
+		await this.appendText(tokens.join(''), tokens.length)
+	}
+
+	/**
+	 * Handle incoming token from streaming API
+	 */
+	onToken = async (token: string) => {
+		if (this.isCompleted) return
+
+		if (this.isPaused) {
+			this.pausedTokens.push(token)
+			return
+		}
+
+		await this.appendText(token, 1)
+	}
+
+	/**
+	 * Add streamed text to the response and render it
+	 */
+	private async appendText(text: string, tokens: number) {
+		this.currentText += text
+		this.tokenCount += tokens
+
+		// Debug every 10 tokens to avoid spam
+		if (this.tokenCount % 10 < tokens) {
+			this.logDebug(`Token ${this.tokenCount}: currentText.length = ${this.currentText.length}`)
+		}
+
+		// Try header-based splitting if enabled
+		if (this.enableLiveSplitting) {
+			await this.tryHeaderBasedSplit()
+		}
+
+		// Update progress
+		this.updateProgress()
+
+		// Throttled updates to prevent overwhelming the UI
+		const now = Date.now()
+		if (now - this.lastUpdateTime >= this.settings.streamingUpdateInterval && !this.pendingUpdate) {
+			this.pendingUpdate = true
+			this.scheduleUpdate()
+		}
+	}
+
+	/**
+	 * Handle completion of streaming
+	 */
+	onComplete = (fullText: string) => {
+		if (this.isCompleted) return
+
+		// Completion resumes a paused stream; the full text already contains the buffered tokens
+		if (this.isPaused) {
+			this.isPaused = false
+			this.tokenCount += this.pausedTokens.length
+			this.pausedTokens = []
+			this.updateStreamingControls()
+			this.logDebug('Streaming completed while paused, resuming')
+		}
+
+		this.isCompleted = true
+		this.currentText = fullText
+
+		// Schedule async operations without blocking the completion callback
+		this.scheduleAsyncCompletion()
+
+		// Final update to remove streaming indicator
+		this.updateCurrentActiveNode()
+		this.updateProgress()
+
+		// Clean up control nodes
+		if (this.controlNode) {
+			setTimeout(() => {
+				if (this.controlNode) {
+					this.canvas.removeNode(this.controlNode)
+					this.controlNode = null
+				}
+			}, 1000) // Remove after 1 second
+		}
+
+		// Clean up progress indicator
+		if (this.progressNode) {
+			setTimeout(() => {
+				if (this.progressNode) {
+					this.canvas.removeNode(this.progressNode)
+					this.progressNode = null
+				}
+			}, 2000) // Remove after 2 seconds
+		}
+
+		const nodeCount = this.enableLiveSplitting ? this.nodeMap.size : 1
+		this.logDebug(`Streaming completed with ${this.tokenCount} tokens across ${nodeCount} nodes`)
+	}
+
+	/**
+	 * Handle async operations after completion
+	 */
+	private async scheduleAsyncCompletion() {
+		try {
+			// Final processing for any remaining content
+			if (this.enableLiveSplitting) {
+				await this.tryHeaderBasedSplit()
+				this.updateCurrentActiveNode()
+			}
+		} catch (error) {
+			this.logDebug('Error in async completion:', error)
+		}
+	}
+
+	/**
+	 * Record the model answering the request in the data of the response
+	 * notes. Called again with the error when falling back to another model.
+	 */
+	setModel(model: string, provider: string, error?: Error) {
+		this.modelData = { model, provider }
+		this.nodeMap.forEach(treeNode => treeNode.canvasNode?.setData({ ...treeNode.canvasNode.getData(), ...this.modelData }))
+		if (!this.nodeMap.size) {
+			this.initialNode.setData({ ...this.initialNode.getData(), ...this.modelData })
+		}
+
+		if (error && !this.isCompleted) {
+			this.initialNode.setText(`${error.message}\nFalling back to ${model}...`)
+		}
+	}
+
+	/**
+	 * Show the request's place in the scheduler queue, or that it has left
+	 * the queue when position is 0
+	 */
+	setQueuePosition(position: number) {
+		if (this.isCompleted || this.currentText) return
+
+		this.initialNode.setText(position > 0
+			? `Queued #${position}…`
+			: `Calling AI (${this.modelData?.model || this.settings.apiModel})...`)
+	}
+
+	/**
+	 * Prepare for a retried request: discard the partial response, including
+	 * any notes split from it, and show the pending retry in the target note
+	 */
+	onRetry = (attempt: number, delayMs: number, error: Error) => {
+		this.errorCount++
+		this.retryCount = attempt
+		this.logDebug(
+			`Retrying streaming in ${delayMs}ms (attempt ${attempt}/${this.settings.streamingRetryAttempts}):`,
+			error
+		)
+
+		if (this.enableLiveSplitting) {
+			this.nodeMap.forEach(treeNode => {
+				if (treeNode.canvasNode && treeNode.canvasNode !== this.initialNode) {
+					this.canvas.removeNode(treeNode.canvasNode)
+				}
+			})
+			this.nodeMap.clear()
+			this.nodeCounter = 0
+			this.lastProcessedLength = 0
+			this.firstHeaderLevel = null
+			this.topLevelCurrent = null
+			this.initializeTreeStructure(this.initialNode)
+		}
+
+		this.currentText = ''
+		this.pausedTokens = []
+		this.tokenCount = 0
+		this.currentNode = this.initialNode
+		this.currentNode.setText(
+			`Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt}/${this.settings.streamingRetryAttempts}): ${error.message}`
+		)
+		this.updateProgress()
+	}
+
+	/**
+	 * Handle a streaming error that is not retried
+	 */
+	onError = (error: Error) => {
+		this.errorCount++
+		this.isCompleted = true
+
+		// Update the node to remove streaming indicator and show error
+		if (this.currentNode) {
+			this.currentNode.setText(this.retryCount > 0
+				? `❌ Streaming failed after ${this.retryCount} retries: ${error.message}`
+				: `❌ Streaming failed: ${error.message}`)
+		}
+
+		// Update progress indicator
+		this.updateProgress()
+
+		// Clean up progress indicator
+		if (this.progressNode) {
+			this.progressNode.setText(`❌ Streaming failed: ${error.message}`)
+			setTimeout(() => {
+				if (this.progressNode) {
+					this.canvas.removeNode(this.progressNode)
+					this.progressNode = null
+				}
+			}, 5000)
+		}
+
+		console.error('Streaming error:', error)
+	}
+
+	/**
+	 * Schedule a throttled update
+	 */
+	private scheduleUpdate() {
+		setTimeout(() => {
+			this.updateCurrentActiveNode()
+			this.lastUpdateTime = Date.now()
+			this.pendingUpdate = false
+		}, Math.max(0, this.settings.streamingUpdateInterval - (Date.now() - this.lastUpdateTime)))
+	}
+
+	/**
+	 * Create streaming control buttons if enabled
+	 */
+	private createStreamingControls() {
+		if (!this.settings.enableStreamingControls) return
+
+		try {
+			// Create control panel node
+			const controlNode = createNode(
+				this.canvas,
+				this.parentNode,
+				{
+					text: '🎛️ Streaming Controls (Streaming...)',
+					size: { height: 80 }
+				},
+				{
+					color: '4', // Green for controls
+					chat_role: 'system'
+				}
+			)
+
+			// Store reference for updates
+			this.controlNode = controlNode
+
+			const buttonsEl = document.createElement('div')
+			buttonsEl.className = 'infoverse-streaming-controls'
+			buttonsEl.style.cssText = `
+				position: absolute;
+				bottom: 8px;
+				left: 8px;
+				display: flex;
+				gap: 4px;
+				z-index: 1;
+			`
+
+			const addButton = (text: string, onClick: () => void) => {
+				const buttonEl = document.createElement('button')
+				buttonEl.textContent = text
+				// Keep the canvas from selecting or dragging the node
+				buttonEl.addEventListener('pointerdown', (e) => e.stopPropagation())
+				buttonEl.addEventListener('click', (e) => {
+					e.stopPropagation()
+					onClick()
+				})
+				buttonsEl.appendChild(buttonEl)
+				return buttonEl
+			}
+
+			this.pauseButtonEl = addButton('⏸️ Pause', () => this.isPaused ? this.resume() : this.pause())
+			addButton('⏹️ Stop', () => this.stop())
+
+			controlNode.nodeEl?.appendChild(buttonsEl)
+		} catch (error) {
+			this.logDebug('Failed to create streaming controls:', error)
+		}
+	}
+
+	/**
+	 * Update streaming control buttons
+	 */
+	private updateStreamingControls() {
+		if (!this.controlNode || !this.settings.enableStreamingControls) return
+
+		const statusText = this.isPaused ? '(Paused)' : '(Streaming...)'
+		this.controlNode.setText(`🎛️ Streaming Controls ${statusText}`)
+
+		if (this.pauseButtonEl) {
+			this.pauseButtonEl.textContent = this.isPaused ? '▶️ Resume' : '⏸️ Pause'
+		}
+	}
+
+	/**
+	 * Force completion if streaming gets stuck
+	 */
+	forceCompletion(reason = 'Force completion'): void {
+		if (!this.isCompleted) {
+			console.warn(`StreamingHandler: ${reason}`)
+			this.onComplete(this.currentText || '')
+		}
+	}
+
+	/**
+	 * Stop streaming at the user's request, or when the stream stalls: abort
+	 * the provider request and keep the partial text, marked as truncated
+	 */
+	stop(marker = truncatedMarker) {
+		if (this.isCompleted) return
+
+		this.isCompleted = true
+		this.isPaused = false
+		this.abortController.abort()
+
+		// Keep tokens that arrived while paused
+		this.currentText += this.pausedTokens.join('')
+		this.tokenCount += this.pausedTokens.length
+		this.pausedTokens = []
+
+		// Update final state
+		this.updateCurrentActiveNode()
+		this.updateProgress()
+
+		const activeTreeNode = this.enableLiveSplitting ? this.getCurrentActiveTreeNode() : null
+		const lastNode = activeTreeNode ? activeTreeNode.canvasNode : this.currentNode
+		if (lastNode) {
+			const text = activeTreeNode ? this.getContentForTreeNode(activeTreeNode) : this.currentText
+			lastNode.setText(text + marker)
+			lastNode.setData({ ...lastNode.getData(), text: text + marker, truncated: true })
+		}
+		this.logDebug(`Streaming stopped after ${this.tokenCount} tokens`)
+
+		// Clean up control nodes immediately
+		if (this.controlNode) {
+			this.canvas.removeNode(this.controlNode)
+			this.controlNode = null
+		}
+
+		// Clean up progress indicator immediately
+		if (this.progressNode) {
+			this.canvas.removeNode(this.progressNode)
+			this.progressNode = null
+		}
+	}
+
+	/**
+	 * Whether the response is still streaming
+	 */
+	isActive(): boolean {
+		return !this.isCompleted
+	}
+
+	/**
+	 * Whether a canvas node shows this response or its streaming controls
+	 */
+	ownsNode(node: CanvasNode): boolean {
+		if (node === this.initialNode || node === this.controlNode || node === this.progressNode) {
+			return true
+		}
+		return Array.from(this.nodeMap.values()).some(treeNode => treeNode.canvasNode === node)
+	}
+
+	/**
+	 * Get the tree structure for debugging or external use
+	 */
+	getTreeStructure(): TreeNode | null {
+		return this.treeRoot
+	}
+
+	/**
+	 * Get a visualization of the current tree structure
+	 */
+	getTreeVisualization(): string {
+		if (!this.treeRoot) return 'No tree structure available'
+
+		const lines: string[] = []
+
+		const renderNode = (node: TreeNode, depth = 0) => {
+			const indent = '  '.repeat(depth)
+			const icon = node.headerLevel === 0 ? '🌳' :
+				node.headerLevel === 1 ? '📚' :
+					node.headerLevel === 2 ? '📖' : '📝'
+			const prefix = node.headerLevel > 0 ? '#'.repeat(node.headerLevel) + ' ' : ''
+			lines.push(`${indent}${icon} ${prefix}${node.headerText} (${node.content.length} chars)`)
+
+			node.children.forEach(child => {
+				renderNode(child, depth + 1)
+			})
+		}
+
+		renderNode(this.treeRoot)
+		return lines.join('\n')
+	}
+
+	private getEdgeSides(parent: CanvasNode, child: CanvasNode) {
+		// Get all existing edges to check for crossings
+		const existingEdges = this.getExistingEdges()
+
+		// Calculate connection points for all four sides of each node
+		const getConnectionPoints = (node: CanvasNode) => {
+			const centerX = node.x + node.width / 2
+			const centerY = node.y + node.height / 2
+
+			return {
+				top: { x: centerX, y: node.y },
+				bottom: { x: centerX, y: node.y + node.height },
+				left: { x: node.x, y: centerY },
+				right: { x: node.x + node.width, y: centerY }
+			}
+		}
+
+		// Check if two line segments intersect
+		const linesIntersect = (p1: { x: number, y: number }, p2: { x: number, y: number },
+			p3: { x: number, y: number }, p4: { x: number, y: number }): boolean => {
+			const denominator = (p4.y - p3.y) * (p2.x - p1.x) - (p4.x - p3.x) * (p2.y - p1.y)
+			if (denominator === 0) return false // parallel lines
+
+			const ua = ((p4.x - p3.x) * (p1.y - p3.y) - (p4.y - p3.y) * (p1.x - p3.x)) / denominator
+			const ub = ((p2.x - p1.x) * (p1.y - p3.y) - (p2.y - p1.y) * (p1.x - p3.x)) / denominator
+
+			return ua >= 0 && ua <= 1 && ub >= 0 && ub <= 1
+		}
+
+		// Check if a potential edge would cross any existing edges
+		const wouldCross = (fromPoint: { x: number, y: number }, toPoint: { x: number, y: number }): boolean => {
+			for (const edge of existingEdges) {
+				if (linesIntersect(fromPoint, toPoint, edge.from, edge.to)) {
+					return true
+				}
+			}
+			return false
+		}
+
+		// Calculate path cost considering distance and crossings
+		const calculatePathCost = (fromPoint: { x: number, y: number }, toPoint: { x: number, y: number }): number => {
+			const distance = Math.sqrt(
+				Math.pow(toPoint.x - fromPoint.x, 2) +
+				Math.pow(toPoint.y - fromPoint.y, 2)
+			)
+
+			// Heavy penalty for crossing existing edges
+			const crossingPenalty = wouldCross(fromPoint, toPoint) ? distance * 10 : 0
+
+			return distance + crossingPenalty
+		}
+
+		const fromPoints = getConnectionPoints(parent)
+		const toPoints = getConnectionPoints(child)
+
+		// Find the best connection that minimizes crossings and distance
+		let minCost = Infinity
+		let bestConnection = { fromSide: 'right', toSide: 'left' }
+
+		const sides = ['top', 'bottom', 'left', 'right'] as const
+
+		for (const fromSide of sides) {
+			for (const toSide of sides) {
+				const fromPoint = fromPoints[fromSide]
+				const toPoint = toPoints[toSide]
+
+				const cost = calculatePathCost(fromPoint, toPoint)
+
+				if (cost < minCost) {
+					minCost = cost
+					bestConnection = { fromSide, toSide }
+				}
+			}
+		}
+
+		return bestConnection
+	}
+
+	/**
+	 * Get existing edges from the canvas to check for crossings
+	 */
+	private getExistingEdges(): Array<{ from: { x: number, y: number }, to: { x: number, y: number } }> {
+		try {
+			const canvasData = (this.canvas as any).getData?.()
+			if (!canvasData?.edges) return []
+
+			const edges: Array<{ from: { x: number, y: number }, to: { x: number, y: number } }> = []
+
+			for (const edge of canvasData.edges) {
+				const fromNode = canvasData.nodes?.find((n: any) => n.id === edge.fromNode)
+				const toNode = canvasData.nodes?.find((n: any) => n.id === edge.toNode)
+
+				if (fromNode && toNode) {
+					// Calculate actual connection points based on edge sides
+					const fromPoint = this.getActualConnectionPoint(fromNode, edge.fromSide || 'right')
+					const toPoint = this.getActualConnectionPoint(toNode, edge.toSide || 'left')
+
+					edges.push({ from: fromPoint, to: toPoint })
+				}
+			}
+
+			return edges
+		} catch (error) {
+			this.logDebug('Failed to get existing edges:', error)
+			return []
+		}
+	}
+
+	/**
+	 * Get the actual connection point for a node and side
+	 */
+	private getActualConnectionPoint(nodeData: any, side: string): { x: number, y: number } {
+		const centerX = nodeData.x + nodeData.width / 2
+		const centerY = nodeData.y + nodeData.height / 2
+
+		switch (side) {
+			case 'top': return { x: centerX, y: nodeData.y }
+			case 'bottom': return { x: centerX, y: nodeData.y + nodeData.height }
+			case 'left': return { x: nodeData.x, y: centerY }
+			case 'right': return { x: nodeData.x + nodeData.width, y: centerY }
+			default: return { x: centerX, y: centerY }
+		}
+	}
+}
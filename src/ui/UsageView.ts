@@ -0,0 +1,116 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian'
+import { requestCount, summarizeUsage, UsageGrouping, UsageLedger } from '../usage/usageLedger'
+
+export const USAGE_VIEW_TYPE = 'infoverse-usage-report'
+
+const GROUPINGS: Record<UsageGrouping, string> = {
+	day: 'Day',
+	canvas: 'Canvas',
+	model: 'Model'
+}
+
+const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`
+
+const formatTokens = (tokens: number) => tokens.toLocaleString()
+
+/**
+ * Report of recorded AI usage: totals and spend by day, canvas or model
+ */
+export class UsageView extends ItemView {
+	private grouping: UsageGrouping = 'day'
+	private removeListener: (() => void) | null = null
+
+	constructor(leaf: WorkspaceLeaf, private ledger: UsageLedger) {
+		super(leaf)
+	}
+
+	getViewType() {
+		return USAGE_VIEW_TYPE
+	}
+
+	getDisplayText() {
+		return 'AI usage'
+	}
+
+	getIcon() {
+		return 'coins'
+	}
+
+	async onOpen() {
+		this.removeListener = this.ledger.onChange(() => this.render())
+		this.render()
+	}
+
+	async onClose() {
+		this.removeListener?.()
+		this.removeListener = null
+	}
+
+	private render() {
+		const container = this.contentEl
+		container.empty()
+		container.addClass('infoverse-usage-view')
+
+		const records = this.ledger.records
+		const total = records.reduce(
+			(sum, record) => ({
+				requests: sum.requests + requestCount(record),
+				cost: sum.cost + record.cost,
+				promptTokens: sum.promptTokens + record.promptTokens,
+				completionTokens: sum.completionTokens + record.completionTokens
+			}),
+			{ requests: 0, cost: 0, promptTokens: 0, completionTokens: 0 }
+		)
+
+		container.createEl('h3', { text: 'AI usage' })
+		container.createEl('p', {
+			text: `${total.requests} requests, ${formatTokens(total.promptTokens)} prompt and ` +
+				`${formatTokens(total.completionTokens)} completion tokens, ${formatCost(total.cost)} total`
+		})
+
+		const controls = container.createDiv({ cls: 'infoverse-usage-controls' })
+		controls.createSpan({ text: 'Group by ' })
+		const select = controls.createEl('select', { cls: 'dropdown' })
+		Object.entries(GROUPINGS).forEach(([value, label]) => {
+			select.createEl('option', { value, text: label })
+		})
+		select.value = this.grouping
+		select.addEventListener('change', () => {
+			this.grouping = select.value as UsageGrouping
+			this.render()
+		})
+
+		const clearButton = controls.createEl('button', { text: 'Clear history' })
+		clearButton.disabled = !records.length
+		clearButton.addEventListener('click', () => {
+			if (confirm('Delete all recorded AI usage?')) this.ledger.clear()
+		})
+
+		if (!records.length) {
+			container.createEl('p', { text: 'No AI requests recorded yet.', cls: 'infoverse-usage-empty' })
+			return
+		}
+
+		const table = container.createEl('table', { cls: 'infoverse-usage-table' })
+		const header = table.createEl('thead').createEl('tr')
+		const columns = [GROUPINGS[this.grouping], 'Requests', 'Prompt', 'Completion', 'Cost']
+		columns.forEach(text => header.createEl('th', { text }))
+
+		const body = table.createEl('tbody')
+		summarizeUsage(records, this.grouping).forEach(summary => {
+			const row = body.createEl('tr')
+			row.createEl('td', { text: summary.key || '(no canvas)' })
+			row.createEl('td', { text: summary.requests.toString() })
+			row.createEl('td', { text: formatTokens(summary.promptTokens) })
+			row.createEl('td', { text: formatTokens(summary.completionTokens) })
+			row.createEl('td', { text: formatCost(summary.cost) })
+		})
+
+		if (records.some(record => record.estimated)) {
+			container.createEl('p', {
+				text: 'Some token counts are estimates because the provider did not report usage.',
+				cls: 'infoverse-usage-empty'
+			})
+		}
+	}
+}
@@ -0,0 +1,85 @@
+import { Budget, budgetUsage, checkBudgets, describeBudgetStatus, parseBudgets, periodStart } from './budgets'
+import { UsageRecord } from './usageLedger'
+
+// Wednesday 11 June 2025, 15:00 local time
+const now = new Date(2025, 5, 11, 15).getTime()
+
+const record = (time: Date, provider: string, cost: number): UsageRecord => ({
+    time: time.getTime(),
+    provider,
+    model: 'model',
+    canvas: 'Ideas.canvas',
+    promptTokens: 1000,
+    completionTokens: 500,
+    cost
+})
+
+const records = [
+    record(new Date(2025, 4, 30), 'OpenAI', 10),
+    record(new Date(2025, 5, 9, 8), 'OpenAI', 2),
+    record(new Date(2025, 5, 11, 9), 'OpenAI', 3),
+    record(new Date(2025, 5, 11, 10), 'Gemini', 1)
+]
+
+const budget = (fields: Partial<Budget>): Budget => ({
+    provider: 'all',
+    period: 'day',
+    metric: 'cost',
+    softLimit: 0,
+    hardLimit: 0,
+    ...fields
+})
+
+describe('periodStart', () => {
+    it('should start days at midnight, weeks on Monday and months on the 1st', () => {
+        expect(periodStart('day', now)).toBe(new Date(2025, 5, 11).getTime())
+        expect(periodStart('week', now)).toBe(new Date(2025, 5, 9).getTime())
+        expect(periodStart('month', now)).toBe(new Date(2025, 5, 1).getTime())
+    })
+})
+
+describe('budgetUsage', () => {
+    it('should count usage in the current period and scope', () => {
+        expect(budgetUsage(records, budget({}), now)).toBe(4)
+        expect(budgetUsage(records, budget({ provider: 'OpenAI', period: 'week' }), now)).toBe(5)
+        expect(budgetUsage(records, budget({ period: 'month', metric: 'tokens' }), now)).toBe(4500)
+    })
+})
+
+describe('checkBudgets', () => {
+    it('should report reached limits, hard ones first', () => {
+        const budgets = [
+            budget({ softLimit: 3.5 }),
+            budget({ provider: 'OpenAI', period: 'week', hardLimit: 5 }),
+            budget({ provider: 'Gemini', hardLimit: 1 })
+        ]
+
+        const statuses = checkBudgets(records, budgets, 'OpenAI', now)
+
+        expect(statuses.map(s => [s.budget, s.level])).toEqual([
+            [budgets[1], 'hard'],
+            [budgets[0], 'soft']
+        ])
+        expect(describeBudgetStatus(statuses[0])).toBe('OpenAI weekly spend budget: $5.00 of $5.00 used')
+    })
+
+    it('should report nothing under the limits', () => {
+        expect(checkBudgets(records, [budget({ softLimit: 10, hardLimit: 20 })], 'OpenAI', now)).toEqual([])
+    })
+})
+
+describe('parseBudgets', () => {
+    it('should fill in defaults', () => {
+        expect(parseBudgets('[{ "period": "month", "hardLimit": 20 }]')).toEqual([
+            { provider: 'all', period: 'month', metric: 'cost', softLimit: 0, hardLimit: 20 }
+        ])
+        expect(parseBudgets('')).toEqual([])
+    })
+
+    it('should describe invalid budgets', () => {
+        expect(() => parseBudgets('{}')).toThrow(/JSON array/)
+        expect(() => parseBudgets('[{ "period": "year", "hardLimit": 1 }]')).toThrow(/Budget 1 needs a "period"/)
+        expect(() => parseBudgets('[{ "period": "day" }]')).toThrow(/softLimit/)
+        expect(() => parseBudgets('[{ "period": "day", "hardLimit": -1 }]')).toThrow(/non-negative/)
+    })
+})
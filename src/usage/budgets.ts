@@ -0,0 +1,161 @@
+import { UsageRecord } from './usageLedger'
+
+/**
+ * Scope of a budget that covers every provider
+ */
+export const ALL_PROVIDERS = 'all'
+
+export type BudgetPeriod = 'day' | 'week' | 'month'
+
+/**
+ * Spend (US dollars) or token limits for one provider, or all of them,
+ * over a period
+ */
+export type Budget = {
+	/**
+	 * Provider id, or `all`
+	 */
+	provider: string,
+
+	period: BudgetPeriod,
+
+	metric: 'cost' | 'tokens',
+
+	/**
+	 * Warn once usage reaches this. 0 means no warning.
+	 */
+	softLimit: number,
+
+	/**
+	 * Refuse requests once usage reaches this, unless overridden. 0 means no limit.
+	 */
+	hardLimit: number
+}
+
+/**
+ * A budget whose soft or hard limit has been reached
+ */
+export type BudgetStatus = {
+	budget: Budget,
+	used: number,
+	level: 'soft' | 'hard'
+}
+
+/**
+ * Key identifying a budget, used to remember overrides
+ */
+export function budgetKey(budget: Budget) {
+	return `${budget.provider}:${budget.period}:${budget.metric}`
+}
+
+/**
+ * Start of the period containing `now`, in local time. Weeks start on Monday.
+ */
+export function periodStart(period: BudgetPeriod, now: number) {
+	const date = new Date(now)
+	date.setHours(0, 0, 0, 0)
+	if (period === 'week') {
+		date.setDate(date.getDate() - (date.getDay() + 6) % 7)
+	} else if (period === 'month') {
+		date.setDate(1)
+	}
+	return date.getTime()
+}
+
+/**
+ * Spend or tokens counted against a budget in its current period
+ */
+export function budgetUsage(records: UsageRecord[], budget: Budget, now: number) {
+	const start = periodStart(budget.period, now)
+	return records
+		.filter(record => record.time >= start && (budget.provider === ALL_PROVIDERS || record.provider === budget.provider))
+		.reduce((sum, record) =>
+			sum + (budget.metric === 'cost' ? record.cost : record.promptTokens + record.completionTokens), 0)
+}
+
+/**
+ * Budgets covering a provider whose soft or hard limit has been reached,
+ * hard limits first
+ */
+export function checkBudgets(
+	records: UsageRecord[],
+	budgets: Budget[],
+	provider: string,
+	now: number
+): BudgetStatus[] {
+	const statuses: BudgetStatus[] = []
+
+	for (const budget of budgets) {
+		if (budget.provider !== ALL_PROVIDERS && budget.provider !== provider) continue
+
+		const used = budgetUsage(records, budget, now)
+		if (budget.hardLimit > 0 && used >= budget.hardLimit) {
+			statuses.push({ budget, used, level: 'hard' })
+		} else if (budget.softLimit > 0 && used >= budget.softLimit) {
+			statuses.push({ budget, used, level: 'soft' })
+		}
+	}
+
+	return statuses.sort((a, b) => (a.level === b.level ? 0 : a.level === 'hard' ? -1 : 1))
+}
+
+const PERIOD_NAMES: Record<BudgetPeriod, string> = {
+	day: 'daily',
+	week: 'weekly',
+	month: 'monthly'
+}
+
+const formatAmount = (budget: Budget, amount: number) =>
+	budget.metric === 'cost' ? `$${amount.toFixed(2)}` : `${Math.round(amount).toLocaleString()} tokens`
+
+/**
+ * Human readable state of a reached budget, e.g.
+ * "OpenAI daily spend budget: $5.10 of $5.00 used"
+ */
+export function describeBudgetStatus(status: BudgetStatus) {
+	const { budget, used, level } = status
+	const scope = budget.provider === ALL_PROVIDERS ? 'Overall' : budget.provider
+	const metric = budget.metric === 'cost' ? 'spend' : 'token'
+	const limit = level === 'hard' ? budget.hardLimit : budget.softLimit
+	return `${scope} ${PERIOD_NAMES[budget.period]} ${metric} budget: ` +
+		`${formatAmount(budget, used)} of ${formatAmount(budget, limit)} used`
+}
+
+/**
+ * Parse budgets entered in settings as a JSON array, throwing an Error
+ * that describes the first invalid entry.
+ */
+export function parseBudgets(json: string): Budget[] {
+	if (!json.trim()) return []
+
+	const entries = JSON.parse(json)
+	if (!Array.isArray(entries)) {
+		throw new Error('Budgets must be a JSON array')
+	}
+
+	return entries.map((entry, i) => {
+		const label = `Budget ${i + 1}`
+		if (!entry || typeof entry !== 'object') {
+			throw new Error(`${label} must be an object`)
+		}
+
+		const { provider = ALL_PROVIDERS, period, metric = 'cost', softLimit = 0, hardLimit = 0 } = entry
+		if (typeof provider !== 'string' || !provider) {
+			throw new Error(`${label} needs a "provider" or "${ALL_PROVIDERS}"`)
+		}
+		if (!Object.keys(PERIOD_NAMES).includes(period)) {
+			throw new Error(`${label} needs a "period" of day, week or month`)
+		}
+		if (metric !== 'cost' && metric !== 'tokens') {
+			throw new Error(`${label} needs a "metric" of cost or tokens`)
+		}
+		if ([softLimit, hardLimit].some(limit => typeof limit !== 'number' || limit < 0)) {
+			throw new Error(`${label} limits must be non-negative numbers`)
+		}
+		if (!softLimit && !hardLimit) {
+			throw new Error(`${label} needs a "softLimit" or "hardLimit"`)
+		}
+
+		return { provider, period, metric, softLimit, hardLimit }
+	})
+}
@@ -0,0 +1,86 @@
+import { TokenUsage } from '../models/llmProvider'
+
+/**
+ * Price of a model in US dollars per million tokens
+ */
+export type ModelPrice = {
+	input: number,
+	output: number
+}
+
+/**
+ * List prices of the built-in models. Models that are not listed, such as
+ * local ones, are free.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+	'gpt-5': { input: 1.25, output: 10 },
+	'gpt-5-mini': { input: 0.25, output: 2 },
+	'gpt-4.1': { input: 2, output: 8 },
+	'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+	'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+	'gpt-4o': { input: 2.5, output: 10 },
+	'gpt-4o-mini': { input: 0.15, output: 0.6 },
+	'o3': { input: 2, output: 8 },
+	'o4-mini': { input: 1.1, output: 4.4 },
+	'o3-mini': { input: 1.1, output: 4.4 },
+	'gpt-4-turbo': { input: 10, output: 30 },
+	'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+	'gemini-2.5-pro': { input: 1.25, output: 10 },
+	'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+	'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+	'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+	'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+	'claude-opus-4-1-20250805': { input: 15, output: 75 },
+	'claude-sonnet-4-20250514': { input: 3, output: 15 },
+	'claude-3-7-sonnet-20250219': { input: 3, output: 15 },
+	'claude-3-5-haiku-20241022': { input: 0.8, output: 4 }
+}
+
+/**
+ * Price of a model, with user prices taking precedence over the built-in
+ * ones. Dated snapshots such as `gpt-4o-2024-08-06` use the price of the
+ * longest listed name they start with.
+ */
+export function getModelPrice(
+	model: string,
+	overrides: Record<string, ModelPrice> = {}
+): ModelPrice | undefined {
+	const prices = { ...DEFAULT_MODEL_PRICES, ...overrides }
+	if (prices[model]) return prices[model]
+
+	const prefix = Object.keys(prices)
+		.filter(name => model.startsWith(`${name}-`))
+		.sort((a, b) => b.length - a.length)[0]
+	return prefix ? prices[prefix] : undefined
+}
+
+/**
+ * Cost of a request in US dollars
+ */
+export function calculateCost(price: ModelPrice | undefined, usage: TokenUsage) {
+	if (!price) return 0
+	return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1000000
+}
+
+/**
+ * Parse the prices entered in settings as a JSON object of model name to
+ * `{ "input": ..., "output": ... }`. Throws a descriptive error when invalid.
+ */
+export function parseModelPrices(json: string): Record<string, ModelPrice> {
+	if (!json.trim()) return {}
+
+	const parsed = JSON.parse(json)
+	if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new Error('Model prices must be a JSON object of model names to prices')
+	}
+
+	const prices: Record<string, ModelPrice> = {}
+	for (const [model, price] of Object.entries(parsed)) {
+		const { input, output } = (price || {}) as Partial<ModelPrice>
+		if (typeof input !== 'number' || typeof output !== 'number' || input < 0 || output < 0) {
+			throw new Error(`Price of ${model} needs non-negative "input" and "output" numbers`)
+		}
+		prices[model] = { input, output }
+	}
+	return prices
+}
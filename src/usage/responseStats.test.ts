@@ -0,0 +1,15 @@
+import { describeResponseStats } from './responseStats'
+
+describe('describeResponseStats', () => {
+    it('should describe latency and tokens', () => {
+        expect(describeResponseStats({
+            firstTokenMs: 820,
+            totalMs: 4230,
+            usage: { promptTokens: 812, completionTokens: 230 }
+        })).toBe('0.8 s to first token · 4.2 s · 812 in, 230 out tokens')
+    })
+
+    it('should leave out what is not known', () => {
+        expect(describeResponseStats({ totalMs: 1500 })).toBe('1.5 s')
+    })
+})
@@ -0,0 +1,33 @@
+import { TokenUsage } from '../models/llmProvider'
+
+/**
+ * Timing and token counts of one response
+ */
+export type ResponseStats = {
+	/**
+	 * Time from the request leaving the queue to the first token
+	 */
+	firstTokenMs?: number,
+
+	/**
+	 * Time from the request leaving the queue to the end of the response
+	 */
+	totalMs: number,
+
+	usage?: TokenUsage
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`
+
+/**
+ * Short description of the stats, e.g. `0.8 s to first token · 4.2 s · 812 in, 230 out tokens`
+ */
+export function describeResponseStats(stats: ResponseStats) {
+	const parts: string[] = []
+	if (stats.firstTokenMs !== undefined) parts.push(`${seconds(stats.firstTokenMs)} to first token`)
+	parts.push(seconds(stats.totalMs))
+	if (stats.usage) {
+		parts.push(`${stats.usage.promptTokens} in, ${stats.usage.completionTokens} out tokens`)
+	}
+	return parts.join(' · ')
+}
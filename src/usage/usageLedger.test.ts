@@ -0,0 +1,115 @@
+import { rollUpUsage, summarizeUsage, UsageLedger, UsageRecord } from './usageLedger'
+import { calculateCost, getModelPrice, parseModelPrices } from './modelPrices'
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+    time: new Date(2025, 5, 1, 12).getTime(),
+    provider: 'OpenAI',
+    model: 'gpt-4o-mini',
+    canvas: 'Ideas.canvas',
+    promptTokens: 1000,
+    completionTokens: 100,
+    cost: 0.01,
+    ...overrides
+})
+
+describe('summarizeUsage', () => {
+    const records = [
+        record({}),
+        record({ time: new Date(2025, 5, 2, 9).getTime(), model: 'gpt-4.1', cost: 0.05 }),
+        record({ time: new Date(2025, 5, 2, 18).getTime(), canvas: 'Work.canvas', cost: 0.02 })
+    ]
+
+    it('should group by day, newest first', () => {
+        expect(summarizeUsage(records, 'day')).toEqual([
+            { key: '2025-06-02', requests: 2, promptTokens: 2000, completionTokens: 200, cost: 0.07 },
+            { key: '2025-06-01', requests: 1, promptTokens: 1000, completionTokens: 100, cost: 0.01 }
+        ])
+    })
+
+    it('should group by model and canvas, most expensive first', () => {
+        expect(summarizeUsage(records, 'model').map(s => [s.key, s.requests]))
+            .toEqual([['gpt-4.1', 1], ['gpt-4o-mini', 2]])
+        expect(summarizeUsage(records, 'canvas').map(s => [s.key, s.requests]))
+            .toEqual([['Ideas.canvas', 2], ['Work.canvas', 1]])
+    })
+})
+
+describe('rollUpUsage', () => {
+    const now = new Date(2025, 7, 1, 12).getTime()
+
+    it('should add up old records by day, provider, model and canvas', () => {
+        const recent = record({ time: new Date(2025, 6, 31, 9).getTime() })
+        const rolledUp = rollUpUsage([
+            record({}),
+            record({ time: new Date(2025, 5, 1, 18).getTime(), estimated: true }),
+            record({ model: 'gpt-4.1', cost: 0.05 }),
+            recent
+        ], now)
+
+        expect(rolledUp).toEqual([
+            record({
+                time: new Date(2025, 5, 1).getTime(),
+                promptTokens: 2000,
+                completionTokens: 200,
+                cost: 0.02,
+                estimated: true,
+                requests: 2
+            }),
+            record({ time: new Date(2025, 5, 1).getTime(), model: 'gpt-4.1', cost: 0.05, requests: 1 }),
+            recent
+        ])
+        expect(summarizeUsage(rolledUp, 'day')[1]).toMatchObject({ key: '2025-06-01', requests: 3 })
+    })
+
+    it('should roll up rolled up records again without losing requests', () => {
+        const once = rollUpUsage([record({}), record({})], now)
+        expect(rollUpUsage(once.concat(record({})), now)).toEqual([
+            record({
+                time: new Date(2025, 5, 1).getTime(),
+                promptTokens: 3000,
+                completionTokens: 300,
+                cost: 0.03,
+                requests: 3
+            })
+        ])
+    })
+})
+
+describe('UsageLedger', () => {
+    it('should notify listeners until they are removed', () => {
+        const ledger = new UsageLedger()
+        const listener = jest.fn()
+        const remove = ledger.onChange(listener)
+
+        ledger.add(record({}))
+        remove()
+        ledger.clear()
+
+        expect(listener).toHaveBeenCalledTimes(1)
+        expect(ledger.records).toEqual([])
+    })
+})
+
+describe('model prices', () => {
+    it('should price dated snapshots like their model', () => {
+        expect(getModelPrice('gpt-4o-2024-08-06')).toEqual(getModelPrice('gpt-4o'))
+        expect(getModelPrice('gpt-4o-mini-2024-07-18')).toEqual(getModelPrice('gpt-4o-mini'))
+        expect(getModelPrice('llama3.1:8b')).toBeUndefined()
+    })
+
+    it('should prefer user prices', () => {
+        expect(getModelPrice('gpt-4o', { 'gpt-4o': { input: 1, output: 2 } })).toEqual({ input: 1, output: 2 })
+    })
+
+    it('should calculate cost per million tokens', () => {
+        expect(calculateCost({ input: 2, output: 8 }, { promptTokens: 500000, completionTokens: 250000 })).toBe(3)
+        expect(calculateCost(undefined, { promptTokens: 500000, completionTokens: 250000 })).toBe(0)
+    })
+
+    it('should reject invalid prices', () => {
+        expect(parseModelPrices('{ "my-model": { "input": 1, "output": 2 } }')).toEqual({ 'my-model': { input: 1, output: 2 } })
+        expect(parseModelPrices('')).toEqual({})
+        expect(() => parseModelPrices('[]')).toThrow(/JSON object/)
+        expect(() => parseModelPrices('{ "my-model": { "input": 1 } }')).toThrow(/my-model/)
+    })
+})
@@ -0,0 +1,158 @@
+import { TokenUsage } from '../models/llmProvider'
+
+/**
+ * One AI request in the usage ledger
+ */
+export type UsageRecord = TokenUsage & {
+	/**
+	 * When the request finished, in milliseconds since the epoch
+	 */
+	time: number,
+
+	provider: string,
+	model: string,
+
+	/**
+	 * Vault path of the canvas the request was made from
+	 */
+	canvas: string,
+
+	/**
+	 * Cost in US dollars at the prices in effect when the request was made
+	 */
+	cost: number,
+
+	/**
+	 * Tokens were counted locally because the provider did not report them
+	 */
+	estimated?: boolean,
+
+	/**
+	 * Number of requests the record adds up, once older records are rolled
+	 * up by day. Absent for a single request.
+	 */
+	requests?: number
+}
+
+/**
+ * Requests are kept one record each for this many days, then rolled up
+ */
+export const DETAILED_USAGE_DAYS = 31
+
+export type UsageGrouping = 'day' | 'canvas' | 'model'
+
+/**
+ * Usage added up over a day, canvas or model
+ */
+export type UsageSummary = TokenUsage & {
+	key: string,
+	requests: number,
+	cost: number
+}
+
+/**
+ * Local date of a timestamp as YYYY-MM-DD
+ */
+export function usageDay(time: number) {
+	const date = new Date(time)
+	const pad = (n: number) => String(n).padStart(2, '0')
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Number of requests a record stands for
+ */
+export function requestCount(record: UsageRecord) {
+	return record.requests || 1
+}
+
+/**
+ * Add up records older than DETAILED_USAGE_DAYS into one record per day,
+ * provider, model and canvas, dated at the start of the day, so the ledger
+ * stops growing with every request while day, week and month totals stay exact
+ */
+export function rollUpUsage(records: UsageRecord[], now: number): UsageRecord[] {
+	const cutoff = now - DETAILED_USAGE_DAYS * 24 * 60 * 60 * 1000
+	const rolledUp = new Map<string, UsageRecord>()
+	const recent: UsageRecord[] = []
+
+	for (const record of records) {
+		if (record.time >= cutoff) {
+			recent.push(record)
+			continue
+		}
+
+		const key = [usageDay(record.time), record.provider, record.model, record.canvas].join('\n')
+		const total = rolledUp.get(key)
+		if (!total) {
+			const day = new Date(record.time)
+			day.setHours(0, 0, 0, 0)
+			rolledUp.set(key, { ...record, time: day.getTime(), requests: requestCount(record) })
+			continue
+		}
+		total.requests = requestCount(total) + requestCount(record)
+		total.promptTokens += record.promptTokens
+		total.completionTokens += record.completionTokens
+		total.cost += record.cost
+		if (record.estimated) total.estimated = true
+	}
+
+	return Array.from(rolledUp.values()).concat(recent)
+}
+
+/**
+ * Add up usage records by day (newest first), canvas or model (most
+ * expensive first)
+ */
+export function summarizeUsage(records: UsageRecord[], grouping: UsageGrouping): UsageSummary[] {
+	const groups = new Map<string, UsageSummary>()
+
+	for (const record of records) {
+		const key = grouping === 'day' ? usageDay(record.time) : record[grouping]
+		const summary = groups.get(key) || { key, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+		summary.requests += requestCount(record)
+		summary.promptTokens += record.promptTokens
+		summary.completionTokens += record.completionTokens
+		summary.cost += record.cost
+		groups.set(key, summary)
+	}
+
+	const summaries = Array.from(groups.values())
+	return grouping === 'day'
+		? summaries.sort((a, b) => b.key.localeCompare(a.key))
+		: summaries.sort((a, b) => b.cost - a.cost || a.key.localeCompare(b.key))
+}
+
+/**
+ * Persisted record of every AI request. Listeners are told about each
+ * change so the ledger can be saved and open reports refreshed.
+ */
+export class UsageLedger {
+	private listeners: Array<() => void> = []
+
+	constructor(public records: UsageRecord[] = []) { }
+
+	add(record: UsageRecord) {
+		this.records.push(record)
+		this.changed()
+	}
+
+	clear() {
+		this.records = []
+		this.changed()
+	}
+
+	/**
+	 * Call a listener after every change. Returns a function that removes it.
+	 */
+	onChange(listener: () => void) {
+		this.listeners.push(listener)
+		return () => {
+			this.listeners = this.listeners.filter(l => l !== listener)
+		}
+	}
+
+	private changed() {
+		this.listeners.forEach(listener => listener())
+	}
+}
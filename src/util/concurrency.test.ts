@@ -0,0 +1,49 @@
+import { runWithConcurrency } from './concurrency'
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('runWithConcurrency', () => {
+    it('should never run more tasks than the limit', async () => {
+        let running = 0
+        let maxRunning = 0
+        const done: number[] = []
+
+        await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+            running++
+            maxRunning = Math.max(maxRunning, running)
+            await tick()
+            running--
+            done.push(item)
+        })
+
+        expect(maxRunning).toBe(2)
+        expect(done.sort()).toEqual([1, 2, 3, 4, 5])
+    })
+
+    it('should run everything at once without a limit', async () => {
+        let running = 0
+        let maxRunning = 0
+
+        await runWithConcurrency([1, 2, 3], 0, async () => {
+            running++
+            maxRunning = Math.max(maxRunning, running)
+            await tick()
+            running--
+        })
+
+        expect(maxRunning).toBe(3)
+    })
+
+    it('should keep going when a task fails', async () => {
+        const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => { })
+        const done: number[] = []
+
+        await runWithConcurrency([1, 2, 3], 1, async (item) => {
+            if (item === 2) throw new Error('failed')
+            done.push(item)
+        })
+
+        expect(done).toEqual([1, 3])
+        errorSpy.mockRestore()
+    })
+})
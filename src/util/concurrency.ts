@@ -0,0 +1,25 @@
+/**
+ * Run `task` for every item with at most `limit` tasks running at once
+ * (0 means no limit), in order of the items. Resolves when all are done;
+ * a task that throws does not stop the others.
+ */
+export async function runWithConcurrency<T>(
+	items: T[],
+	limit: number,
+	task: (item: T, index: number) => Promise<void>
+) {
+	let next = 0
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++
+			try {
+				await task(items[index], index)
+			} catch (err) {
+				console.error(err)
+			}
+		}
+	}
+
+	const workers = limit > 0 ? Math.min(limit, items.length) : items.length
+	await Promise.all(Array.from({ length: workers }, worker))
+}
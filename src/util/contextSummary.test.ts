@@ -0,0 +1,42 @@
+import { buildSummaryRequest, hashNotes, summaryMessage } from './contextSummary'
+
+describe('hashNotes', () => {
+    const notes = [
+        { role: 'user' as const, text: 'What is a monad?' },
+        { role: 'assistant' as const, text: 'A monoid in the category of endofunctors.' }
+    ]
+
+    it('should be stable for the same notes', () => {
+        expect(hashNotes(notes)).toBe(hashNotes(notes.map(note => ({ ...note }))))
+    })
+
+    it('should change when text, role or order changes', () => {
+        const hash = hashNotes(notes)
+
+        expect(hashNotes([notes[0], { ...notes[1], text: 'Something else' }])).not.toBe(hash)
+        expect(hashNotes([notes[0], { ...notes[1], role: 'user' }])).not.toBe(hash)
+        expect(hashNotes([notes[1], notes[0]])).not.toBe(hash)
+    })
+})
+
+describe('buildSummaryRequest', () => {
+    it('should send the notes as a transcript', () => {
+        const messages = buildSummaryRequest([
+            { role: 'user', text: 'Question' },
+            { role: 'assistant', text: 'Answer' }
+        ], 500)
+
+        expect(messages[0].role).toBe('system')
+        expect(messages[0].content).toContain('at most 500 tokens')
+        expect(messages[1].content).toContain('User:\nQuestion\n\n---\n\nAssistant:\nAnswer')
+    })
+})
+
+describe('summaryMessage', () => {
+    it('should label the summary', () => {
+        expect(summaryMessage(' The user is planning a trip. ')).toEqual({
+            role: 'user',
+            content: 'Earlier context summary:\n\nThe user is planning a trip.'
+        })
+    })
+})
@@ -0,0 +1,75 @@
+import { openai } from '../openai/chatGPT-types'
+
+/**
+ * Heading of the synthetic message that replaces summarized ancestors
+ */
+export const SUMMARY_HEADING = 'Earlier context summary'
+
+/**
+ * A note that did not fit in the context window and is summarized instead
+ */
+export type SummarizedNote = {
+	role: 'user' | 'assistant',
+	text: string
+}
+
+/**
+ * Summary stored in the data of the newest summarized node
+ */
+export type ContextSummaryCache = {
+	/**
+	 * hashNotes() of the notes the summary covers
+	 */
+	hash: string,
+	text: string
+}
+
+/**
+ * Content hash of a list of notes (53-bit cyrb53), so a cached summary is
+ * only reused while the notes it covers are unchanged
+ */
+export function hashNotes(notes: SummarizedNote[]) {
+	const content = JSON.stringify(notes.map(note => [note.role, note.text]))
+	let h1 = 0xdeadbeef
+	let h2 = 0x41c6ce57
+	for (let i = 0; i < content.length; i++) {
+		const ch = content.charCodeAt(i)
+		h1 = Math.imul(h1 ^ ch, 2654435761)
+		h2 = Math.imul(h2 ^ ch, 1597334677)
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)
+}
+
+/**
+ * Messages asking a model to summarize notes in at most `maxTokens` tokens
+ */
+export function buildSummaryRequest(notes: SummarizedNote[], maxTokens: number): openai.ChatCompletionRequestMessage[] {
+	const transcript = notes
+		.map(note => `${note.role === 'assistant' ? 'Assistant' : 'User'}:\n${note.text}`)
+		.join('\n\n---\n\n')
+
+	return [
+		{
+			role: 'system',
+			content: 'You condense the beginning of a long conversation so it can continue without it. ' +
+				'Keep the goals, framing, definitions, decisions and open questions; drop repetition and filler. ' +
+				`Write at most ${maxTokens} tokens of plain prose. Do not add anything that is not in the conversation.`
+		},
+		{
+			role: 'user',
+			content: `Summarize this earlier part of the conversation:\n\n${transcript}`
+		}
+	]
+}
+
+/**
+ * Message that stands in for the summarized notes
+ */
+export function summaryMessage(summary: string): openai.ChatCompletionRequestMessage {
+	return {
+		role: 'user',
+		content: `${SUMMARY_HEADING}:\n\n${summary.trim()}`
+	}
+}
@@ -0,0 +1,132 @@
+import { RateLimit, RequestScheduler } from './requestScheduler'
+
+type Deferred = { resolve: () => void }
+
+describe('RequestScheduler', () => {
+    let maxConcurrent = 0
+    let rateLimits: Record<string, RateLimit> = {}
+    let scheduler: RequestScheduler
+    let started: string[]
+    let pending: Record<string, Deferred>
+
+    const request = (id: string, provider = 'OpenAI', tokens = 100, onQueued?: (position: number) => void, signal?: AbortSignal) =>
+        scheduler.schedule(provider, tokens, () => {
+            started.push(id)
+            return new Promise<string>(resolve => {
+                pending[id] = { resolve: () => resolve(id) }
+            })
+        }, onQueued, signal)
+
+    // Let promise callbacks run; timers are faked
+    const flush = async () => {
+        for (let i = 0; i < 5; i++) await Promise.resolve()
+    }
+
+    beforeEach(() => {
+        jest.useFakeTimers()
+        maxConcurrent = 0
+        rateLimits = {}
+        started = []
+        pending = {}
+        scheduler = new RequestScheduler(() => ({
+            maxConcurrent,
+            rateLimit: (provider) => rateLimits[provider]
+        }))
+    })
+
+    afterEach(() => {
+        jest.useRealTimers()
+    })
+
+    it('should run requests immediately without limits', () => {
+        request('a')
+        request('b')
+
+        expect(started).toEqual(['a', 'b'])
+    })
+
+    it('should limit concurrent requests and report queue positions', async () => {
+        maxConcurrent = 1
+        const positions: number[] = []
+
+        const a = request('a')
+        request('b')
+        request('c', 'OpenAI', 100, position => positions.push(position))
+
+        expect(started).toEqual(['a'])
+        expect(positions).toEqual([2])
+        expect(scheduler.queued).toBe(2)
+
+        pending.a.resolve()
+        await expect(a).resolves.toBe('a')
+        await flush()
+
+        expect(started).toEqual(['a', 'b'])
+        expect(positions).toEqual([2, 1])
+    })
+
+    it('should hold requests over the requests per minute limit for a minute', async () => {
+        rateLimits.OpenAI = { requestsPerMinute: 2, tokensPerMinute: 0 }
+
+        request('a')
+        request('b')
+        request('c')
+        expect(started).toEqual(['a', 'b'])
+
+        jest.advanceTimersByTime(59000)
+        expect(started).toEqual(['a', 'b'])
+
+        jest.advanceTimersByTime(1000)
+        expect(started).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should hold requests over the tokens per minute limit', () => {
+        rateLimits.OpenAI = { requestsPerMinute: 0, tokensPerMinute: 1000 }
+
+        request('a', 'OpenAI', 600)
+        request('b', 'OpenAI', 600)
+        expect(started).toEqual(['a'])
+
+        jest.advanceTimersByTime(60000)
+        expect(started).toEqual(['a', 'b'])
+    })
+
+    it('should not let a rate limited provider block other providers', () => {
+        rateLimits.OpenAI = { requestsPerMinute: 1, tokensPerMinute: 0 }
+
+        request('a')
+        request('b')
+        request('c', 'Gemini')
+
+        expect(started).toEqual(['a', 'c'])
+    })
+
+    it('should drop requests aborted while queued', async () => {
+        maxConcurrent = 1
+        const controller = new AbortController()
+
+        request('a')
+        const b = request('b', 'OpenAI', 100, undefined, controller.signal)
+        controller.abort()
+
+        await expect(b).resolves.toBeUndefined()
+        expect(scheduler.queued).toBe(0)
+
+        pending.a.resolve()
+        await flush()
+        expect(started).toEqual(['a'])
+    })
+
+    it('should release the slot of a request that throws when started', async () => {
+        maxConcurrent = 1
+
+        const failing = scheduler.schedule('OpenAI', 100, () => {
+            throw new Error('invalid request')
+        })
+        await expect(failing).rejects.toThrow('invalid request')
+
+        request('a')
+        await flush()
+        expect(started).toEqual(['a'])
+    })
+})
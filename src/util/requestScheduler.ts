@@ -0,0 +1,194 @@
+/**
+ * Length of the window rate limits are measured over
+ */
+const RATE_WINDOW_MS = 60000
+
+/**
+ * Per-provider rate limits. 0 means unlimited.
+ */
+export type RateLimit = {
+	requestsPerMinute: number,
+	tokensPerMinute: number
+}
+
+export type SchedulerLimits = {
+	/**
+	 * Requests running at the same time across all providers. 0 means unlimited.
+	 */
+	maxConcurrent: number,
+
+	rateLimit: (provider: string) => RateLimit | undefined
+}
+
+type QueuedRequest = {
+	provider: string
+	tokens: number
+	start: () => void
+	onQueued?: (position: number) => void
+	position?: number
+}
+
+type SentRequest = {
+	time: number
+	tokens: number
+}
+
+/**
+ * Queues AI requests so that no more than a maximum number run at once and
+ * each provider stays within its requests and tokens per minute. Requests
+ * start in order, except that one held back by its provider's rate limit
+ * does not block requests to other providers.
+ */
+export class RequestScheduler {
+	private queue: QueuedRequest[] = []
+	private running = 0
+	private sent = new Map<string, SentRequest[]>()
+	private timer: ReturnType<typeof setTimeout> | null = null
+
+	/**
+	 * @param getLimits read on every scheduling decision, so settings changes apply immediately
+	 */
+	constructor(private getLimits: () => SchedulerLimits) { }
+
+	/**
+	 * Run a request once the limits allow it. `tokens` is the estimated
+	 * number of tokens the request uses. `onQueued` is called with the
+	 * 1-based queue position whenever it changes while the request waits.
+	 * Resolves to undefined without running when aborted while queued.
+	 */
+	schedule<T>(
+		provider: string,
+		tokens: number,
+		run: () => Promise<T>,
+		onQueued?: (position: number) => void,
+		signal?: AbortSignal
+	): Promise<T | undefined> {
+		if (signal?.aborted) return Promise.resolve(undefined)
+
+		return new Promise<T | undefined>((resolve, reject) => {
+			const request: QueuedRequest = {
+				provider,
+				tokens,
+				onQueued,
+				start: () => {
+					signal?.removeEventListener('abort', onAbort)
+					const finish = () => {
+						this.running--
+						this.pump()
+					}
+					// A synchronous throw from run() must release the slot too
+					new Promise<T>(resolveRun => resolveRun(run())).then(
+						(result) => {
+							finish()
+							resolve(result)
+						},
+						(error) => {
+							finish()
+							reject(error)
+						}
+					)
+				}
+			}
+
+			const onAbort = () => {
+				const index = this.queue.indexOf(request)
+				if (index >= 0) {
+					this.queue.splice(index, 1)
+					resolve(undefined)
+					this.pump()
+				}
+			}
+			signal?.addEventListener('abort', onAbort)
+
+			this.queue.push(request)
+			this.pump()
+		})
+	}
+
+	/**
+	 * Number of requests waiting to start
+	 */
+	get queued() {
+		return this.queue.length
+	}
+
+	/**
+	 * Start every queued request the limits allow, then report queue
+	 * positions and wake up when a rate limit window frees up.
+	 */
+	private pump() {
+		const limits = this.getLimits()
+		const now = Date.now()
+		let wakeIn = Infinity
+		// Providers with a held back request; later requests to them wait their turn
+		const blocked = new Set<string>()
+
+		for (let i = 0; i < this.queue.length;) {
+			if (limits.maxConcurrent > 0 && this.running >= limits.maxConcurrent) break
+
+			const request = this.queue[i]
+			if (blocked.has(request.provider)) {
+				i++
+				continue
+			}
+
+			const waitMs = this.rateLimitWait(request, limits.rateLimit(request.provider), now)
+			if (waitMs > 0) {
+				wakeIn = Math.min(wakeIn, waitMs)
+				blocked.add(request.provider)
+				i++
+				continue
+			}
+
+			this.queue.splice(i, 1)
+			this.running++
+			this.sentRequests(request.provider, now).push({ time: now, tokens: request.tokens })
+			request.start()
+		}
+
+		this.queue.forEach((request, i) => {
+			if (request.position !== i + 1) {
+				request.position = i + 1
+				request.onQueued?.(i + 1)
+			}
+		})
+
+		if (this.timer) {
+			clearTimeout(this.timer)
+			this.timer = null
+		}
+		if (wakeIn < Infinity) {
+			this.timer = setTimeout(() => {
+				this.timer = null
+				this.pump()
+			}, wakeIn)
+		}
+	}
+
+	/**
+	 * Requests sent to a provider within the current window
+	 */
+	private sentRequests(provider: string, now: number) {
+		const recent = (this.sent.get(provider) || []).filter(r => now - r.time < RATE_WINDOW_MS)
+		this.sent.set(provider, recent)
+		return recent
+	}
+
+	/**
+	 * How long a request has to wait for its provider's rate limit, 0 if it can start now
+	 */
+	private rateLimitWait(request: QueuedRequest, limit: RateLimit | undefined, now: number) {
+		if (!limit) return 0
+
+		const recent = this.sentRequests(request.provider, now)
+		if (!recent.length) return 0 // a single oversized request still has to run
+
+		const overRequests = limit.requestsPerMinute > 0 && recent.length >= limit.requestsPerMinute
+		const usedTokens = recent.reduce((sum, r) => sum + r.tokens, 0)
+		const overTokens = limit.tokensPerMinute > 0 && usedTokens + request.tokens > limit.tokensPerMinute
+		if (!overRequests && !overTokens) return 0
+
+		// Recheck when the oldest request leaves the window
+		return Math.max(1, recent[0].time + RATE_WINDOW_MS - now)
+	}
+}
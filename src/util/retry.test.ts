@@ -0,0 +1,46 @@
+import { backoffDelay, getErrorStatus, isRetryableError } from './retry'
+
+describe('isRetryableError', () => {
+    it('should read the status from provider error messages', () => {
+        expect(getErrorStatus(new Error('HTTP 429: Too Many Requests - slow down'))).toBe(429)
+        expect(getErrorStatus(new Error('[GoogleGenerativeAI Error]: Error fetching: [503 Service Unavailable] busy'))).toBe(503)
+        expect(getErrorStatus(Object.assign(new Error('failed'), { status: 500 }))).toBe(500)
+        expect(getErrorStatus(new Error('Something else'))).toBeUndefined()
+    })
+
+    it('should retry rate limits and server errors', () => {
+        expect(isRetryableError(new Error('HTTP 429: Too Many Requests'))).toBe(true)
+        expect(isRetryableError(new Error('HTTP 500: Internal Server Error'))).toBe(true)
+        expect(isRetryableError(new Error('HTTP 529: Overloaded'))).toBe(true)
+        expect(isRetryableError(new Error('Anthropic API error: Overloaded'))).toBe(true)
+    })
+
+    it('should retry dropped connections', () => {
+        expect(isRetryableError(new Error('read ECONNRESET'))).toBe(true)
+        expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true)
+    })
+
+    it('should not retry client errors', () => {
+        expect(isRetryableError(new Error('HTTP 401: Unauthorized - invalid x-api-key'))).toBe(false)
+        expect(isRetryableError(new Error('HTTP 400: Bad Request'))).toBe(false)
+        expect(isRetryableError(new Error('No response body reader available'))).toBe(false)
+    })
+})
+
+describe('backoffDelay', () => {
+    it('should double the delay with each attempt', () => {
+        const max = () => 1
+        expect(backoffDelay(1, 1000, 30000, max)).toBe(1000)
+        expect(backoffDelay(2, 1000, 30000, max)).toBe(2000)
+        expect(backoffDelay(3, 1000, 30000, max)).toBe(4000)
+    })
+
+    it('should add jitter of up to half the delay', () => {
+        expect(backoffDelay(3, 1000, 30000, () => 0)).toBe(2000)
+        expect(backoffDelay(3, 1000, 30000, () => 0.5)).toBe(3000)
+    })
+
+    it('should cap the delay', () => {
+        expect(backoffDelay(20, 1000, 30000, () => 1)).toBe(30000)
+    })
+})
@@ -0,0 +1,58 @@
+/**
+ * Default delay before the first retry
+ */
+export const RETRY_BASE_DELAY = 1000
+
+/**
+ * Upper bound for a single retry delay
+ */
+export const RETRY_MAX_DELAY = 30000
+
+/**
+ * Messages of errors raised when a connection drops or cannot be made
+ */
+const NETWORK_ERROR_PATTERN =
+	/ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|EAI_AGAIN|socket hang up|network ?error|failed to fetch|fetch failed|load failed|terminated/i
+
+/**
+ * HTTP status of a provider error, read from a `status` property or from
+ * messages such as `HTTP 429: ...` and `[503 Service Unavailable]`
+ */
+export function getErrorStatus(error: Error): number | undefined {
+	const status = (error as Error & { status?: unknown }).status
+	if (typeof status === 'number') return status
+
+	const match = error.message.match(/\bHTTP (\d{3})\b/) || error.message.match(/\[(\d{3})\b[^\]]*\]/)
+	return match ? parseInt(match[1]) : undefined
+}
+
+/**
+ * Whether a failed request is worth repeating: rate limits, server errors
+ * and dropped connections. Client errors such as a bad API key are not.
+ */
+export function isRetryableError(error: Error): boolean {
+	const status = getErrorStatus(error)
+	if (status !== undefined) {
+		return status === 408 || status === 429 || status >= 500
+	}
+
+	// Anthropic reports overload inside the stream rather than as a status
+	if (/overloaded/i.test(error.message)) return true
+
+	return NETWORK_ERROR_PATTERN.test(error.message)
+}
+
+/**
+ * Delay before retry number `attempt` (starting at 1): exponential backoff
+ * with jitter, so the delay is a random value between half and all of
+ * `baseMs * 2^(attempt - 1)`, capped at `maxMs`.
+ */
+export function backoffDelay(
+	attempt: number,
+	baseMs = RETRY_BASE_DELAY,
+	maxMs = RETRY_MAX_DELAY,
+	random: () => number = Math.random
+) {
+	const exponential = Math.min(maxMs, baseMs * Math.pow(2, Math.max(0, attempt - 1)))
+	return Math.round(exponential / 2 + random() * (exponential / 2))
+}
@@ -8,3 +8,23 @@ export const randomHexString = (len: number) => {
 	}
 	return t.join('')
 }
+
+/**
+ * Split a base64 data URL into its MIME type and payload
+ */
+export const parseDataUrl = (url: string) => {
+	const match = url.match(/^data:([^;]+);base64,(.*)$/)
+	return match ? { mimeType: match[1], data: match[2] } : null
+}
+
+/**
+ * Abort a controller when an outer signal aborts
+ */
+export const forwardAbort = (signal: AbortSignal | undefined, controller: AbortController) => {
+	if (!signal) return
+	if (signal.aborted) {
+		controller.abort()
+	} else {
+		signal.addEventListener('abort', () => controller.abort(), { once: true })
+	}
+}